@@ -0,0 +1,117 @@
+/**
+ * Returns the current token, or nothing when there is none
+ */
+export type TokenGetter = () =>
+    string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Obtains a new token after a request was rejected with a 401 status,
+ * resolving to nothing when the token cannot be refreshed
+ */
+export type TokenRefresher = () => Promise<string | null | undefined>;
+
+/**
+ * How requests are authenticated:
+ * - `bearer` sends `Authorization: Bearer <token>`
+ * - `basic` sends the credentials in an `Authorization: Basic` header
+ * - `custom` sends the headers built from the token
+ */
+export type AuthConfig =
+    | {
+          scheme?: "bearer";
+          getToken: TokenGetter;
+          refreshToken?: TokenRefresher;
+      }
+    | { scheme: "basic"; username: string; password: string }
+    | {
+          scheme: "custom";
+          getToken: TokenGetter;
+          refreshToken?: TokenRefresher;
+          headers: (token: string) => Record<string, string>;
+      };
+
+// Refreshes in flight per configuration, shared by every request using it
+const refreshing = new WeakMap<AuthConfig, Promise<string | null>>();
+
+// The token obtained by the last refresh and the number of refreshes, per configuration
+const refreshed = new WeakMap<AuthConfig, { token: string; count: number }>();
+
+const encodeBasic = (username: string, password: string): string => {
+    let binary = "";
+    for (const byte of new TextEncoder().encode(`${username}:${password}`)) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+};
+
+/**
+ * Returns the token to send, waiting for a refresh in flight, and the number
+ * of refreshes it was obtained after
+ * @param auth - The authentication configuration
+ */
+export const currentToken = async (
+    auth: AuthConfig,
+): Promise<{ token?: string; refreshes: number }> => {
+    if (auth.scheme === "basic") {
+        return {
+            token: encodeBasic(auth.username, auth.password),
+            refreshes: 0,
+        };
+    }
+
+    const token =
+        (await refreshing.get(auth)) ?? (await auth.getToken()) ?? undefined;
+    return { token, refreshes: refreshed.get(auth)?.count ?? 0 };
+};
+
+/**
+ * Builds the headers carrying a token
+ * @param auth - The authentication configuration
+ * @param token - The token, no headers are sent without one
+ */
+export const authHeaders = (
+    auth: AuthConfig,
+    token: string | undefined,
+): Record<string, string> => {
+    if (!token) return {};
+    if (auth.scheme === "basic") return { Authorization: `Basic ${token}` };
+
+    return auth.scheme === "custom"
+        ? auth.headers(token)
+        : { Authorization: `Bearer ${token}` };
+};
+
+/**
+ * Refreshes a token rejected by the server. Requests failing together share a
+ * single refresh, and a token refreshed since the request was sent is reused.
+ * @param auth - The authentication configuration
+ * @param refreshes - The number of refreshes when the rejected token was obtained
+ * @returns The new token, or null when it could not be refreshed
+ */
+export const refreshAuth = async (
+    auth: AuthConfig,
+    refreshes: number,
+): Promise<string | null> => {
+    if (auth.scheme === "basic" || !auth.refreshToken) return null;
+
+    const latest = refreshed.get(auth);
+    if (latest && latest.count !== refreshes) return latest.token;
+
+    let pending = refreshing.get(auth);
+    if (!pending) {
+        pending = auth
+            .refreshToken()
+            .then(
+                (token) => {
+                    if (!token) return null;
+                    const count = (refreshed.get(auth)?.count ?? 0) + 1;
+                    refreshed.set(auth, { token, count });
+                    return token;
+                },
+                () => null,
+            )
+            .finally(() => refreshing.delete(auth));
+        refreshing.set(auth, pending);
+    }
+    return pending;
+};
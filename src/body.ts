@@ -0,0 +1,334 @@
+/**
+ * Encodes a payload into a request body for a content type, such as msgpack or CBOR
+ */
+export type Serializer = (payload: unknown) => RequestBody;
+
+type RequestBody = NonNullable<RequestInit["body"]>;
+
+/**
+ * Serializers keyed by the content type they encode, such as `application/msgpack`
+ */
+export type Serializers = Record<string, Serializer>;
+
+/**
+ * A serialized payload
+ */
+export type SerializedBody = {
+    body: RequestBody;
+    /** The content type of the body, when none was set */
+    contentType?: string;
+    /** Whether the body is a stream, which must be sent with `duplex: "half"` */
+    stream?: boolean;
+    /** Whether the Content-Type header must be removed, letting fetch set the multipart boundary */
+    multipart?: boolean;
+};
+
+/**
+ * Decodes a response body for a content type, such as XML or CSV
+ */
+export type Deserializer = (response: Response) => unknown;
+
+/**
+ * Deserializers keyed by the content type they decode. Keys may use `*` as a
+ * wildcard, such as `text/*` or `application/*+xml`.
+ */
+export type Deserializers = Record<string, Deserializer>;
+
+/**
+ * How JSON bodies are parsed and encoded
+ */
+export type JsonOptions = {
+    /** Revives ISO 8601 date strings into Date objects */
+    dates?: boolean;
+    /** Parses integers too large for numbers into BigInt values, and encodes BigInt values as numbers */
+    bigint?: boolean;
+    /** Converts snake_case keys of responses to camelCase, and camelCase keys of request bodies to snake_case */
+    camelCase?: boolean;
+    /** Transforms every parsed value, after the other options */
+    reviver?: (key: string, value: unknown) => unknown;
+};
+
+const ISO_DATE =
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+// Marks the integers kept as strings while parsing or encoding, turned into BigInt values or numbers afterwards
+const BIGINT_MARK = "\u0000bigint:";
+
+const NUMBER = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+
+const toCamelCase = (key: string): string =>
+    key.replace(/_+([a-z\d])/g, (_, char: string) => char.toUpperCase());
+
+const toSnakeCase = (key: string): string =>
+    key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype;
+
+const renameKeys = (
+    value: Record<string, unknown>,
+    rename: (key: string) => string,
+): Record<string, unknown> =>
+    Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [rename(key), item]),
+    );
+
+// Quotes the integers too large for numbers, so the reviver can turn them into BigInt values
+const quoteBigInts = (text: string): string => {
+    let result = "";
+    let copied = 0;
+    let inString = false;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (inString) {
+            if (char === "\\") index++;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+            continue;
+        }
+        if (char !== "-" && !(char && char >= "0" && char <= "9")) continue;
+
+        NUMBER.lastIndex = index;
+        const [literal = "", fraction, exponent] = NUMBER.exec(text) ?? [];
+        if (!fraction && !exponent && !Number.isSafeInteger(Number(literal))) {
+            result += `${text.slice(copied, index)}"${JSON.stringify(BIGINT_MARK).slice(1, -1)}${literal}"`;
+            copied = index + literal.length;
+        }
+        index += Math.max(literal.length - 1, 0);
+    }
+    return result + text.slice(copied);
+};
+
+/**
+ * Parses a JSON text
+ * @param text - The JSON text
+ * @param options - How values are revived
+ */
+export const parseJson = (text: string, options: JsonOptions = {}): unknown => {
+    const { dates, bigint, camelCase, reviver } = options;
+    if (!dates && !bigint && !camelCase && !reviver) return JSON.parse(text);
+
+    return JSON.parse(
+        bigint ? quoteBigInts(text) : text,
+        function (key, value: unknown) {
+            let revived = value;
+            if (typeof revived === "string") {
+                if (bigint && revived.startsWith(BIGINT_MARK)) {
+                    revived = BigInt(revived.slice(BIGINT_MARK.length));
+                } else if (dates && ISO_DATE.test(revived)) {
+                    revived = new Date(revived);
+                }
+            } else if (camelCase && isPlainObject(revived)) {
+                revived = renameKeys(revived, toCamelCase);
+            }
+            return reviver ? reviver.call(this, key, revived) : revived;
+        },
+    );
+};
+
+/**
+ * Encodes a value as JSON
+ * @param value - The value
+ * @param options - How values are encoded
+ */
+export const stringifyJson = (
+    value: unknown,
+    { bigint, camelCase }: JsonOptions = {},
+): string => {
+    const text = JSON.stringify(value, (_, item: unknown) => {
+        if (bigint && typeof item === "bigint") return `${BIGINT_MARK}${item}`;
+        if (camelCase && isPlainObject(item)) {
+            return renameKeys(item, toSnakeCase);
+        }
+        return item;
+    });
+    return bigint ? text.replace(/"\\u0000bigint:(-?\d+)"/g, "$1") : text;
+};
+
+// Whether a media type matches a registry key, which may contain wildcards
+const matchesType = (type: string, key: string): boolean => {
+    const pattern = mediaType(key)
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${pattern}$`).test(type);
+};
+
+/**
+ * Returns the entry of a registry for a content type, exact keys first
+ * @param registry - Entries keyed by content type
+ * @param contentType - The content type
+ */
+const findByType = <T>(
+    registry: Record<string, T>,
+    contentType: string | null | undefined,
+): T | undefined => {
+    const type = mediaType(contentType);
+    const entries = Object.entries(registry);
+    return (
+        entries.find(([key]) => mediaType(key) === type)?.[1] ??
+        entries.find(
+            ([key]) => key.includes("*") && matchesType(type, key),
+        )?.[1]
+    );
+};
+
+const isJsonType = (type: string): boolean =>
+    type === "application/json" || type.endsWith("+json");
+
+/**
+ * Reads a response body according to its Content-Type. Empty bodies are null,
+ * JSON is parsed, text is returned as a string and other types as a Blob.
+ * @param response - The response
+ * @param deserializers - Custom deserializers keyed by content type
+ * @param json - How JSON is parsed
+ */
+export const readBody = async (
+    response: Response,
+    deserializers: Deserializers = {},
+    json?: JsonOptions,
+): Promise<unknown> => {
+    if ([204, 205, 304].includes(response.status) || !response.body) {
+        await response.body?.cancel();
+        return null;
+    }
+
+    const contentType = response.headers.get("Content-Type");
+    const deserializer = findByType(deserializers, contentType);
+    if (deserializer) return deserializer(response);
+
+    const type = mediaType(contentType);
+    if (type && !isJsonType(type) && !type.startsWith("text/")) {
+        const blob = await response.blob();
+        return blob.size ? blob : null;
+    }
+
+    const text = await response.text();
+    if (!text) return null;
+    return isJsonType(type) ? parseJson(text, json) : text;
+};
+
+// Encodes the payloads of form content types
+const toSearchParams = (payload: unknown): URLSearchParams => {
+    if (payload instanceof URLSearchParams) return payload;
+
+    const params = new URLSearchParams();
+    const entries =
+        payload instanceof FormData
+            ? payload.entries()
+            : Object.entries(payload ?? {});
+    for (const [key, value] of entries) {
+        if (value === undefined || value === null) continue;
+        params.append(
+            key,
+            typeof value === "object" && !(value instanceof Blob)
+                ? JSON.stringify(value)
+                : String(value),
+        );
+    }
+    return params;
+};
+
+// Serializers used when no custom one is registered for the content type
+const defaultSerializers: Serializers = {
+    "application/x-www-form-urlencoded": (payload) =>
+        toSearchParams(payload).toString(),
+    "text/plain": (payload) => String(payload),
+};
+
+/**
+ * Returns the media type of a Content-Type header, in lower case and without parameters
+ * @param contentType - The header value
+ */
+export const mediaType = (contentType: string | null | undefined): string =>
+    (contentType ?? "").split(";")[0]?.trim().toLowerCase() ?? "";
+
+/**
+ * Returns the value of a header, whatever its case
+ * @param headers - The headers
+ * @param name - The header name
+ */
+export const headerValue = (
+    headers: Record<string, string> | undefined,
+    name: string,
+): string | undefined =>
+    Object.entries(headers ?? {}).find(
+        ([key]) => key.toLowerCase() === name.toLowerCase(),
+    )?.[1];
+
+/**
+ * Serializes a payload into a request body. Bodies fetch can send are kept as they
+ * are, files in a FormData are sent as multipart, other payloads are encoded by the
+ * serializer of the content type, as JSON by default.
+ * @param payload - The payload, nothing is sent when it is undefined or null
+ * @param contentType - The Content-Type header set on the request
+ * @param serializers - Custom serializers keyed by content type
+ * @param json - How JSON is encoded
+ */
+export const serializeBody = (
+    payload: unknown,
+    contentType: string | undefined,
+    serializers: Serializers = {},
+    json?: JsonOptions,
+): SerializedBody | undefined => {
+    if (payload === undefined || payload === null) return undefined;
+
+    if (payload instanceof ReadableStream) {
+        return {
+            body: payload,
+            contentType: "application/octet-stream",
+            stream: true,
+        };
+    }
+    if (payload instanceof Blob) {
+        return {
+            body: payload,
+            contentType: payload.type || "application/octet-stream",
+        };
+    }
+    if (payload instanceof ArrayBuffer || ArrayBuffer.isView(payload)) {
+        return {
+            body: payload as ArrayBuffer | Uint8Array,
+            contentType: "application/octet-stream",
+        };
+    }
+    if (payload instanceof URLSearchParams) {
+        return {
+            body: payload.toString(),
+            contentType: "application/x-www-form-urlencoded;charset=UTF-8",
+        };
+    }
+    if (payload instanceof FormData) {
+        // Files can only be sent as multipart, other fields are sent urlencoded
+        const hasFiles = [...payload.values()].some(
+            (value) => typeof value !== "string",
+        );
+        return hasFiles
+            ? { body: payload, multipart: true }
+            : {
+                  body: toSearchParams(payload).toString(),
+                  contentType: "application/x-www-form-urlencoded",
+              };
+    }
+
+    const type = mediaType(contentType);
+    const serializer = findByType(serializers, type);
+    if (serializer) return { body: serializer(payload) };
+
+    if (typeof payload === "string") {
+        return { body: payload, contentType: "text/plain" };
+    }
+    const fallback = defaultSerializers[type];
+    if (fallback) return { body: fallback(payload) };
+
+    return {
+        body: stringifyJson(payload, json),
+        contentType: "application/json",
+    };
+};
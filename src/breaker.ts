@@ -0,0 +1,267 @@
+/**
+ * The states of a circuit:
+ * - `closed` lets requests through and counts their failures
+ * - `open` fails requests without sending them until the cooldown is over
+ * - `half-open` lets trial requests through, closing the circuit when they succeed
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * A change of the state of a circuit
+ */
+export type CircuitEvent = {
+    /** The circuit, an origin or the base path of an instance */
+    key: string;
+    from: CircuitState;
+    to: CircuitState;
+};
+
+/**
+ * When circuits open and how they recover
+ */
+export type BreakerConfig = {
+    /** Opens the circuit after this many consecutive failures, 5 by default */
+    failures?: number;
+    /** Opens the circuit when this ratio of the recent requests failed, 0.5 by default */
+    failureRate?: number;
+    /** Number of recent requests the failure rate is computed over, 20 by default */
+    window?: number;
+    /** Number of recent requests needed before the failure rate applies, 10 by default */
+    minimumRequests?: number;
+    /** Time the circuit stays open before trial requests are let through in milliseconds, 30 seconds by default */
+    cooldown?: number;
+    /** Number of trial requests that must succeed to close the circuit, 1 by default */
+    trials?: number;
+    /** Whether a response counts as a failure, a 5xx status by default */
+    isFailure?: (response: Response) => boolean;
+    /** One circuit per origin by default, or one per instance created by `sub()` or `path()` */
+    scope?: "origin" | "instance";
+    /** Called when the state of a circuit changes */
+    onStateChange?: (event: CircuitEvent) => void;
+};
+
+/**
+ * Circuits failing requests fast while the server they are sent to keeps failing
+ */
+export interface CircuitBreaker {
+    /** Whether requests share a circuit per origin or per instance */
+    readonly scope: "origin" | "instance";
+
+    /**
+     * Lets a request through, or throws a `CircuitOpen` error when the circuit is open
+     * @param key - The circuit
+     * @returns A function recording whether the request failed, or nothing when it was cancelled
+     */
+    acquire(key: string): (failed?: boolean) => void;
+
+    /**
+     * Whether a response counts as a failure
+     * @param response - The response received
+     */
+    isFailure(response: Response): boolean;
+
+    /**
+     * Returns the state of a circuit
+     * @param key - The circuit
+     */
+    state(key: string): CircuitState;
+
+    /**
+     * Listens to the state changes of every circuit
+     * @param listener - Called on every change
+     * @returns A function removing the listener
+     */
+    on(listener: (event: CircuitEvent) => void): () => void;
+
+    /**
+     * Closes a circuit and forgets its failures, every circuit when no key is given
+     * @param key - The circuit
+     */
+    reset(key?: string): void;
+}
+
+/**
+ * Error rejecting a request while its circuit is open
+ */
+export class CircuitOpen extends Error {
+    constructor(
+        readonly key: string,
+        readonly retryAt: number,
+    ) {
+        super(`The circuit of ${key} is open`);
+        this.name = "CircuitOpen";
+    }
+}
+
+type Circuit = {
+    state: CircuitState;
+    /** Outcomes of the recent requests, true for failures */
+    outcomes: boolean[];
+    consecutive: number;
+    openedAt: number;
+    /** Trial requests in flight and succeeded while half-open */
+    trials: number;
+    passed: number;
+};
+
+/**
+ * Returns the circuit a request goes through
+ * @param breaker - The circuit breaker
+ * @param url - The URL of the request
+ * @param basePath - The base path of the instance sending it
+ */
+export const circuitKey = (
+    breaker: CircuitBreaker,
+    url: string,
+    basePath: string,
+): string => {
+    if (breaker.scope === "instance") return basePath;
+    try {
+        return new URL(url).origin;
+    } catch {
+        return url;
+    }
+};
+
+/**
+ * Creates a circuit breaker. The instances it is passed to count their
+ * failures in the same circuits, keyed as set by `scope`.
+ * @param config - When circuits open and how they recover
+ */
+export const createCircuitBreaker = ({
+    failures = 5,
+    failureRate = 0.5,
+    window = 20,
+    minimumRequests = 10,
+    cooldown = 30_000,
+    trials = 1,
+    isFailure = (response) => response.status >= 500,
+    scope = "origin",
+    onStateChange,
+}: BreakerConfig = {}): CircuitBreaker => {
+    const circuits = new Map<string, Circuit>();
+    const listeners = new Set<(event: CircuitEvent) => void>();
+    if (onStateChange) listeners.add(onStateChange);
+
+    const circuit = (key: string): Circuit => {
+        let found = circuits.get(key);
+        if (!found) {
+            found = {
+                state: "closed",
+                outcomes: [],
+                consecutive: 0,
+                openedAt: 0,
+                trials: 0,
+                passed: 0,
+            };
+            circuits.set(key, found);
+        }
+        return found;
+    };
+
+    const transition = (key: string, target: Circuit, to: CircuitState) => {
+        const from = target.state;
+        if (from === to) return;
+
+        target.state = to;
+        target.trials = 0;
+        target.passed = 0;
+        if (to === "open") target.openedAt = Date.now();
+        if (to === "closed") {
+            target.outcomes = [];
+            target.consecutive = 0;
+        }
+        for (const listener of listeners) {
+            try {
+                listener({ key, from, to });
+            } catch {
+                // Listeners cannot break requests
+            }
+        }
+    };
+
+    // Moves an open circuit to half-open once its cooldown is over
+    const current = (key: string): Circuit => {
+        const target = circuit(key);
+        if (
+            target.state === "open" &&
+            Date.now() - target.openedAt >= cooldown
+        ) {
+            transition(key, target, "half-open");
+        }
+        return target;
+    };
+
+    const record = (key: string, target: Circuit, failed: boolean) => {
+        if (target.state === "half-open") {
+            target.trials--;
+            if (failed) return transition(key, target, "open");
+            if (++target.passed >= trials) transition(key, target, "closed");
+            return;
+        }
+        if (target.state !== "closed") return;
+
+        target.outcomes.push(failed);
+        if (target.outcomes.length > window) target.outcomes.shift();
+        target.consecutive = failed ? target.consecutive + 1 : 0;
+
+        const failedCount = target.outcomes.filter(Boolean).length;
+        if (
+            target.consecutive >= failures ||
+            (target.outcomes.length >= minimumRequests &&
+                failedCount / target.outcomes.length >= failureRate)
+        ) {
+            transition(key, target, "open");
+        }
+    };
+
+    return {
+        scope,
+
+        acquire: (key) => {
+            const target = current(key);
+            if (
+                target.state === "open" ||
+                (target.state === "half-open" && target.trials >= trials)
+            ) {
+                throw new CircuitOpen(key, target.openedAt + cooldown);
+            }
+
+            const state = target.state;
+            if (state === "half-open") target.trials++;
+
+            let recorded = false;
+            return (failed) => {
+                if (recorded) return;
+                recorded = true;
+                // Outcomes of requests let through before the circuit changed are ignored
+                if (target.state !== state) return;
+
+                if (failed === undefined) {
+                    if (state === "half-open") target.trials--;
+                    return;
+                }
+                record(key, target, failed);
+            };
+        },
+
+        isFailure,
+
+        state: (key) => current(key).state,
+
+        on: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        reset: (key) => {
+            for (const [name, target] of circuits) {
+                if (key === undefined || name === key) {
+                    transition(name, target, "closed");
+                    target.outcomes = [];
+                    target.consecutive = 0;
+                }
+            }
+        },
+    };
+};
@@ -0,0 +1,353 @@
+/**
+ * A response stored in the cache
+ */
+export type CacheEntry = {
+    status: number;
+    statusText: string;
+    headers: [string, string][];
+    body: ArrayBuffer;
+    /** Time the entry was stored or last revalidated, in milliseconds */
+    storedAt: number;
+    /** Time the entry becomes stale, in milliseconds */
+    expiresAt: number;
+    /** Values of the request headers named by the Vary header, the entry only answers requests with the same values */
+    vary?: Record<string, string | null>;
+};
+
+/**
+ * Storage for cached responses. Methods may be synchronous or asynchronous,
+ * so persistent stores can be plugged in.
+ */
+export type CacheStore = {
+    get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+};
+
+/**
+ * HTTP cache configuration
+ */
+export type CacheConfig = {
+    /** Storage for the cached responses, an in-memory LRU cache by default */
+    store?: CacheStore;
+    /** Maximum bytes of a stored body, larger responses are not stored, 1 MiB by default */
+    maxEntrySize?: number;
+};
+
+/**
+ * How a single request uses the cache, following the semantics of `RequestInit.cache`
+ */
+export type CacheMode =
+    | "default"
+    | "no-store"
+    | "reload"
+    | "no-cache"
+    | "force-cache"
+    | "only-if-cached";
+
+const DEFAULT_MAX_ENTRY_SIZE = 1024 * 1024;
+
+/**
+ * Creates an in-memory cache store evicting the least recently used entries
+ * @param maxEntries - Maximum number of stored responses
+ */
+export const createMemoryCache = (maxEntries = 100): CacheStore => {
+    const entries = new Map<string, CacheEntry>();
+
+    return {
+        get: (key) => {
+            const entry = entries.get(key);
+            if (entry) {
+                // Re-inserting moves the entry to the most recently used position
+                entries.delete(key);
+                entries.set(key, entry);
+            }
+            return entry;
+        },
+
+        set: (key, entry) => {
+            entries.delete(key);
+            entries.set(key, entry);
+
+            for (const oldest of entries.keys()) {
+                if (entries.size <= maxEntries) break;
+                entries.delete(oldest);
+            }
+        },
+
+        delete: (key) => {
+            entries.delete(key);
+        },
+    };
+};
+
+// Parses the Cache-Control directives into a map of lowercase names to values
+const parseCacheControl = (value: string | null): Map<string, string> => {
+    const directives = new Map<string, string>();
+    if (!value) return directives;
+
+    for (const part of value.split(",")) {
+        const [name = "", directive = ""] = part.trim().split("=");
+        if (name) {
+            directives.set(name.toLowerCase(), directive.replace(/"/g, ""));
+        }
+    }
+    return directives;
+};
+
+// Computes when a response becomes stale, or null when it must not be stored
+const expiresAt = (headers: Headers, now: number): number | null => {
+    const cacheControl = parseCacheControl(headers.get("Cache-Control"));
+    if (cacheControl.has("no-store")) return null;
+    if (cacheControl.has("no-cache")) return now;
+
+    const maxAge = Number(cacheControl.get("max-age"));
+    if (cacheControl.has("max-age") && !Number.isNaN(maxAge)) {
+        return now + maxAge * 1000;
+    }
+
+    const expires = Date.parse(headers.get("Expires") ?? "");
+    return Number.isNaN(expires) ? now : expires;
+};
+
+// Request headers identifying the user, responses to them are only shared when public
+const CREDENTIAL_HEADERS = ["authorization", "cookie"];
+
+const isPublic = (headers: Headers): boolean =>
+    parseCacheControl(headers.get("Cache-Control")).has("public");
+
+// Returns the lowercase names of the request headers a response varies on
+const varyNames = (headers: Headers): string[] =>
+    (headers.get("Vary") ?? "")
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean);
+
+const matchesVary = (entry: CacheEntry, request: Request): boolean =>
+    Object.entries(entry.vary ?? {}).every(
+        ([name, value]) => request.headers.get(name) === value,
+    );
+
+// The keys of a request: one shared by every user, and one private to its
+// credentials when it has any. Credentials are hashed so persistent stores do
+// not keep them.
+const requestKeys = async (
+    request: Request,
+): Promise<{ shared: string; private?: string }> => {
+    const shared = `${request.method} ${request.url}`;
+    const credentials = CREDENTIAL_HEADERS.map((name) =>
+        request.headers.get(name),
+    );
+    if (credentials.every((value) => value === null)) return { shared };
+
+    const digest = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(JSON.stringify(credentials)),
+    );
+    const hash = [...new Uint8Array(digest)]
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("");
+    return { shared, private: `${shared} ${hash}` };
+};
+
+// Finds the entry answering a request and the key it is stored at
+const lookup = async (
+    cache: CacheStore,
+    keys: { shared: string; private?: string },
+    request: Request,
+): Promise<{ key: string; entry: CacheEntry } | undefined> => {
+    if (keys.private) {
+        const entry = await cache.get(keys.private);
+        if (entry && matchesVary(entry, request)) {
+            return { key: keys.private, entry };
+        }
+    }
+
+    const entry = await cache.get(keys.shared);
+    if (!entry || !matchesVary(entry, request)) return undefined;
+    // Requests with credentials only use the shared entries marked public
+    if (keys.private && !isPublic(new Headers(entry.headers))) {
+        return undefined;
+    }
+    return { key: keys.shared, entry };
+};
+
+const hasValidator = (headers: Headers) =>
+    headers.has("ETag") || headers.has("Last-Modified");
+
+const toResponse = (entry: CacheEntry): Response =>
+    new Response(entry.body.slice(0), {
+        status: entry.status,
+        statusText: entry.statusText,
+        headers: entry.headers,
+    });
+
+// Collects the body of a response as it is read, storing the entry before the
+// reader sees its end. Bodies read partly or larger than the limit are not stored.
+const storeBody = async (
+    response: Response,
+    maxSize: number,
+    save: (body: ArrayBuffer) => Promise<void>,
+): Promise<Response> => {
+    if (!response.body) {
+        await save(new ArrayBuffer(0));
+        return response;
+    }
+
+    let chunks: Uint8Array[] | undefined = [];
+    let size = 0;
+    const body = response.body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                size += chunk.byteLength;
+                if (size > maxSize) chunks = undefined;
+                chunks?.push(chunk);
+                controller.enqueue(chunk);
+            },
+            async flush() {
+                if (chunks) await save(await new Blob(chunks).arrayBuffer());
+            },
+        }),
+    );
+    return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+};
+
+// Stores a successful response once its body was read and returns a copy streaming it
+const store = async (
+    cache: CacheStore,
+    keys: { shared: string; private?: string },
+    request: Request,
+    response: Response,
+    maxEntrySize: number,
+): Promise<Response> => {
+    const now = Date.now();
+    const expires = expiresAt(response.headers, now);
+    const names = varyNames(response.headers);
+    const key =
+        keys.private && !isPublic(response.headers)
+            ? keys.private
+            : keys.shared;
+
+    // Responses varying on everything can never be reused
+    if (expires === null || names.includes("*")) {
+        await cache.delete(key);
+        return response;
+    }
+
+    // Responses that are immediately stale are only worth keeping to revalidate them
+    if (
+        response.status !== 200 ||
+        (expires <= now && !hasValidator(response.headers))
+    ) {
+        return response;
+    }
+
+    const length = Number(response.headers.get("Content-Length") ?? NaN);
+    if (length > maxEntrySize) return response;
+
+    const vary = names.length
+        ? Object.fromEntries(
+              names.map((name) => [name, request.headers.get(name)]),
+          )
+        : undefined;
+    return storeBody(response, maxEntrySize, async (body) => {
+        const entry: CacheEntry = {
+            status: response.status,
+            statusText: response.statusText,
+            headers: [...response.headers.entries()],
+            body,
+            storedAt: now,
+            expiresAt: expires,
+        };
+        if (vary) entry.vary = vary;
+        await cache.set(key, entry);
+    });
+};
+
+// Builds the conditional headers that revalidate an entry
+const conditionalHeaders = (entry: CacheEntry): Record<string, string> => {
+    const headers = new Headers(entry.headers);
+    const conditions: Record<string, string> = {};
+
+    const etag = headers.get("ETag");
+    if (etag) conditions["If-None-Match"] = etag;
+
+    const lastModified = headers.get("Last-Modified");
+    if (lastModified) conditions["If-Modified-Since"] = lastModified;
+
+    return conditions;
+};
+
+// Updates an entry with the headers of a 304 response
+const revalidated = (entry: CacheEntry, response: Response): CacheEntry => {
+    const headers = new Headers(entry.headers);
+    response.headers.forEach((value, name) => headers.set(name, value));
+
+    const now = Date.now();
+    return {
+        ...entry,
+        headers: [...headers.entries()],
+        storedAt: now,
+        expiresAt: expiresAt(headers, now) ?? now,
+    };
+};
+
+/**
+ * Sends a request through the cache. Entries are keyed by the method and URL,
+ * only answer requests with the same values of the headers named by Vary, and
+ * are private to the Authorization and Cookie headers unless marked public.
+ * @param cache - The cache store
+ * @param request - The request, as it is sent
+ * @param mode - How the request uses the cache
+ * @param send - Sends the request with additional headers
+ * @param maxEntrySize - Maximum bytes of a stored body
+ */
+export const cachedFetch = async (
+    cache: CacheStore,
+    request: Request,
+    mode: CacheMode,
+    send: (headers: Record<string, string>) => Promise<Response>,
+    maxEntrySize = DEFAULT_MAX_ENTRY_SIZE,
+): Promise<Response> => {
+    if (mode === "no-store") return send({});
+
+    const keys = await requestKeys(request);
+    if (mode === "reload") {
+        return store(cache, keys, request, await send({}), maxEntrySize);
+    }
+
+    const found = await lookup(cache, keys, request);
+
+    if (!found) {
+        if (mode === "only-if-cached") {
+            return new Response(null, {
+                status: 504,
+                statusText: "Gateway Timeout",
+            });
+        }
+        return store(cache, keys, request, await send({}), maxEntrySize);
+    }
+
+    const { key, entry } = found;
+    const fresh = entry.expiresAt > Date.now();
+    if (
+        mode === "force-cache" ||
+        mode === "only-if-cached" ||
+        (mode === "default" && fresh)
+    ) {
+        return toResponse(entry);
+    }
+
+    const response = await send(conditionalHeaders(entry));
+    if (response.status !== 304) {
+        return store(cache, keys, request, response, maxEntrySize);
+    }
+
+    const updated = revalidated(entry, response);
+    await cache.set(key, updated);
+    return toResponse(updated);
+};
@@ -0,0 +1,111 @@
+import type { FetchioConfig, FetchResult, StandardSchema } from "./index";
+import type { PathParams } from "./url";
+
+declare const typedMarker: unique symbol;
+
+/**
+ * A type declared without a runtime schema, created with `typed<T>()`
+ */
+export type Typed<T> = { readonly [typedMarker]?: T };
+
+/**
+ * The type of a route query, body or response: a Standard Schema or a parse
+ * function validating it at runtime, or a type declared with `typed<T>()`
+ */
+export type TypeSpec =
+    StandardSchema<any, any> | ((value: unknown) => unknown) | Typed<unknown>;
+
+/**
+ * A route of an API contract
+ */
+export type RouteDefinition = {
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+    /** Path template appended to the base path, `:param` segments become arguments */
+    path: string;
+    query?: TypeSpec;
+    body?: TypeSpec;
+    response?: TypeSpec;
+};
+
+/**
+ * Routes of an API contract, grouped in nested objects
+ */
+export type ApiDefinition = {
+    [name: string]: RouteDefinition | ApiDefinition;
+};
+
+// The type a caller provides for a spec
+type SpecInput<S> =
+    S extends StandardSchema<infer Input, any>
+        ? Input
+        : S extends (value: unknown) => infer Output
+          ? Output
+          : S extends Typed<infer T>
+            ? T
+            : never;
+
+// The type a spec produces
+type SpecOutput<S> =
+    S extends StandardSchema<any, infer Output>
+        ? Output
+        : S extends (value: unknown) => infer Output
+          ? Output
+          : S extends Typed<infer T>
+            ? T
+            : never;
+
+/**
+ * The argument of a route method: the path params, and the query and body when declared
+ */
+export type RouteArgs<R extends RouteDefinition> = PathParams<R["path"]> &
+    (R extends { query: infer Q } ? { query: SpecInput<Q> } : unknown) &
+    (R extends { body: infer B } ? { body: SpecInput<B> } : unknown);
+
+/**
+ * The data a route responds with, void when no response is declared
+ */
+export type RouteResponse<R extends RouteDefinition> = R extends {
+    response: infer S;
+}
+    ? SpecOutput<S>
+    : void;
+
+/**
+ * A method sending the request of a route, with options merged with the instance configuration
+ */
+export type RouteMethod<R extends RouteDefinition> = (
+    ...args: Record<never, never> extends RouteArgs<R>
+        ? [args?: RouteArgs<R>, options?: FetchioConfig]
+        : [args: RouteArgs<R>, options?: FetchioConfig]
+) => Promise<FetchResult<RouteResponse<R>>>;
+
+/**
+ * A client with a method for every route of an API contract
+ */
+export type ApiClient<A extends ApiDefinition> = {
+    [Name in keyof A]: A[Name] extends RouteDefinition
+        ? RouteMethod<A[Name]>
+        : A[Name] extends ApiDefinition
+          ? ApiClient<A[Name]>
+          : never;
+};
+
+/**
+ * Declares a type for a route without validating it at runtime
+ */
+export const typed = <T>(): Typed<T> => ({});
+
+/**
+ * Defines an API contract, passed to `createFetchio` to create a typed client
+ * @param api - The routes, grouped in nested objects
+ */
+export const defineApi = <const A extends ApiDefinition>(api: A): A => api;
+
+/**
+ * Whether an entry of a contract is a route rather than a group of routes
+ * @param entry - The contract entry
+ */
+export const isRoute = (
+    entry: RouteDefinition | ApiDefinition,
+): entry is RouteDefinition =>
+    typeof entry["method"] === "string" && typeof entry["path"] === "string";
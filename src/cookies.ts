@@ -0,0 +1,383 @@
+import type { FileSystemAdapter, Transport } from "./index";
+
+/**
+ * A cookie stored in a jar
+ */
+export type Cookie = {
+    name: string;
+    value: string;
+    /** The domain, without a leading dot */
+    domain: string;
+    /** Whether the cookie is only sent to the exact domain that set it */
+    hostOnly: boolean;
+    path: string;
+    /** Time the cookie expires in milliseconds, session cookies have none */
+    expires?: number;
+    secure: boolean;
+    httpOnly: boolean;
+    sameSite?: "Strict" | "Lax" | "None";
+    /** Time the cookie was first stored in milliseconds */
+    createdAt: number;
+};
+
+/**
+ * Cookies received from responses and sent back with matching requests, following RFC 6265
+ */
+export interface CookieJar {
+    /**
+     * Stores the cookies of `Set-Cookie` headers
+     * @param url - The URL of the response
+     * @param setCookies - The values of the `Set-Cookie` headers
+     */
+    store(url: string, setCookies: string[]): void;
+
+    /**
+     * Returns the value of the `Cookie` header for a request, empty when no cookie matches
+     * @param url - The URL of the request
+     */
+    header(url: string): string;
+
+    /**
+     * Returns the cookies that are not expired, only those sent to a URL when given
+     * @param url - The URL of a request
+     */
+    cookies(url?: string): Cookie[];
+
+    /**
+     * Removes every cookie
+     */
+    clear(): void;
+
+    /**
+     * Returns the cookies to serialize, session cookies included
+     */
+    toJSON(): Cookie[];
+
+    /**
+     * Writes the cookies to a file as JSON
+     * @param fs - The file system adapter
+     * @param filename - The file name
+     */
+    save(fs: FileSystemAdapter, filename: string): Promise<void>;
+
+    /**
+     * Replaces the cookies with those of a file written by `save`
+     * @param fs - The file system adapter
+     * @param filename - The file name
+     */
+    load(fs: FileSystemAdapter, filename: string): Promise<void>;
+}
+
+// Whether a host matches a cookie domain (RFC 6265 section 5.1.3)
+const domainMatch = (host: string, domain: string): boolean =>
+    host === domain ||
+    (host.endsWith(`.${domain}`) && !/^[\d.]+$|:/.test(host));
+
+// Whether no site may set cookies for a domain: single labels such as `com`, and
+// the second-level registries of country domains such as `co.uk`. Without the
+// public suffix list, other registries are not recognized.
+const isPublicSuffix = (domain: string): boolean =>
+    !domain.includes(".") ||
+    /^(?:ac|co|com|edu|gov|ltd|ne|net|or|org|plc)\.[a-z]{2}$/.test(domain);
+
+// Whether a request path matches a cookie path (RFC 6265 section 5.1.4)
+const pathMatch = (requestPath: string, path: string): boolean =>
+    requestPath === path ||
+    (requestPath.startsWith(path) &&
+        (path.endsWith("/") || requestPath[path.length] === "/"));
+
+// The directory of a request path (RFC 6265 section 5.1.4)
+const defaultPath = (requestPath: string): string => {
+    if (!requestPath.startsWith("/")) return "/";
+    const last = requestPath.lastIndexOf("/");
+    return last === 0 ? "/" : requestPath.slice(0, last);
+};
+
+const parseUrl = (url: string): URL | undefined => {
+    try {
+        return new URL(url);
+    } catch {
+        return undefined;
+    }
+};
+
+// Parses a Set-Cookie header into a cookie, or nothing when it must be ignored (RFC 6265 section 5.2)
+const parseSetCookie = (
+    setCookie: string,
+    url: URL,
+    now: number,
+): Cookie | undefined => {
+    const [pair = "", ...attributes] = setCookie.split(";");
+    const separator = pair.indexOf("=");
+    if (separator === -1) return undefined;
+
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (!name) return undefined;
+
+    const host = url.hostname.toLowerCase();
+    const cookie: Cookie = {
+        name,
+        value,
+        domain: host,
+        hostOnly: true,
+        path: defaultPath(url.pathname),
+        secure: false,
+        httpOnly: false,
+        createdAt: now,
+    };
+    let maxAge: number | undefined;
+    let expires: number | undefined;
+
+    for (const attribute of attributes) {
+        const index = attribute.indexOf("=");
+        const key = (index === -1 ? attribute : attribute.slice(0, index))
+            .trim()
+            .toLowerCase();
+        const attributeValue =
+            index === -1 ? "" : attribute.slice(index + 1).trim();
+
+        if (key === "expires") {
+            const date = Date.parse(attributeValue);
+            if (!Number.isNaN(date)) expires = date;
+        } else if (key === "max-age") {
+            if (/^-?\d+$/.test(attributeValue)) {
+                maxAge = Number(attributeValue);
+            }
+        } else if (key === "domain" && attributeValue) {
+            const domain = attributeValue.replace(/^\./, "").toLowerCase();
+            // Cookies for other domains are rejected, and public suffixes are only
+            // accepted from the host itself, as host-only cookies (RFC 6265 section 5.3)
+            if (!domainMatch(host, domain)) return undefined;
+            if (isPublicSuffix(domain) && domain !== host) return undefined;
+            cookie.domain = domain;
+            cookie.hostOnly = isPublicSuffix(domain);
+        } else if (key === "path") {
+            if (attributeValue.startsWith("/")) cookie.path = attributeValue;
+        } else if (key === "secure") {
+            cookie.secure = true;
+        } else if (key === "httponly") {
+            cookie.httpOnly = true;
+        } else if (key === "samesite") {
+            const sameSite = attributeValue.toLowerCase();
+            if (sameSite === "strict") cookie.sameSite = "Strict";
+            else if (sameSite === "lax") cookie.sameSite = "Lax";
+            else if (sameSite === "none") cookie.sameSite = "None";
+        }
+    }
+
+    // Max-Age takes precedence over Expires
+    if (maxAge !== undefined) {
+        cookie.expires = maxAge <= 0 ? 0 : now + maxAge * 1000;
+    } else if (expires !== undefined) {
+        cookie.expires = expires;
+    }
+
+    // Secure cookies can only be set by secure origins
+    if (cookie.secure && url.protocol !== "https:") return undefined;
+
+    return cookie;
+};
+
+/**
+ * Creates a cookie jar
+ * @param cookies - Cookies to start with, such as those returned by `toJSON`
+ */
+export const createCookieJar = (cookies: Cookie[] = []): CookieJar => {
+    let stored = [...cookies];
+
+    const live = (now: number) =>
+        (stored = stored.filter(
+            (cookie) => cookie.expires === undefined || cookie.expires > now,
+        ));
+
+    const matching = (url: URL, now: number): Cookie[] => {
+        const host = url.hostname.toLowerCase();
+        return live(now)
+            .filter(
+                (cookie) =>
+                    (cookie.hostOnly
+                        ? host === cookie.domain
+                        : domainMatch(host, cookie.domain)) &&
+                    pathMatch(url.pathname, cookie.path) &&
+                    (!cookie.secure || url.protocol === "https:"),
+            )
+            .sort(
+                (a, b) =>
+                    b.path.length - a.path.length || a.createdAt - b.createdAt,
+            );
+    };
+
+    const jar: CookieJar = {
+        store: (url, setCookies) => {
+            const target = parseUrl(url);
+            if (!target) return;
+            const now = Date.now();
+
+            for (const setCookie of setCookies) {
+                const cookie = parseSetCookie(setCookie, target, now);
+                if (!cookie) continue;
+
+                const existing = stored.find(
+                    (other) =>
+                        other.name === cookie.name &&
+                        other.domain === cookie.domain &&
+                        other.path === cookie.path,
+                );
+                if (existing) cookie.createdAt = existing.createdAt;
+
+                stored = stored.filter((other) => other !== existing);
+                stored.push(cookie);
+            }
+            live(now);
+        },
+
+        header: (url) => {
+            const target = parseUrl(url);
+            if (!target) return "";
+
+            return matching(target, Date.now())
+                .map((cookie) => `${cookie.name}=${cookie.value}`)
+                .join("; ");
+        },
+
+        cookies: (url) => {
+            const now = Date.now();
+            if (url === undefined) return [...live(now)];
+
+            const target = parseUrl(url);
+            return target ? matching(target, now) : [];
+        },
+
+        clear: () => {
+            stored = [];
+        },
+
+        toJSON: () => [...live(Date.now())],
+
+        save: async (fs, filename) => {
+            const json = JSON.stringify(jar.toJSON(), null, 2);
+            await fs.saveFile(await new Blob([json]).arrayBuffer(), filename);
+        },
+
+        load: async (fs, filename) => {
+            const data = await fs.loadFile(filename);
+            stored = JSON.parse(await new Response(data).text()) as Cookie[];
+        },
+    };
+
+    return jar;
+};
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Maximum number of redirects followed, as fetch does
+const MAX_REDIRECTS = 20;
+
+// Headers describing the body, removed when a redirect drops it
+const BODY_HEADERS = [
+    "content-type",
+    "content-length",
+    "content-encoding",
+    "content-language",
+    "content-location",
+];
+
+/**
+ * Returns the Cookie header of a request: the cookies it was given, followed
+ * by the matching cookies of the jar. Null when there are none.
+ * @param jar - The cookie jar
+ * @param url - The URL of the request
+ * @param given - The Cookie header set on the request
+ */
+export const cookieHeader = (
+    jar: CookieJar,
+    url: string,
+    given: string | null,
+): string | null => {
+    const cookie = jar.header(url);
+    if (!cookie) return given;
+    return given ? `${given}; ${cookie}` : cookie;
+};
+
+// Builds the request following a redirect, as fetch does
+const redirectRequest = (
+    request: Request,
+    copy: Request | undefined,
+    status: number,
+    url: URL,
+): Request => {
+    // 303 redirects, and 301 and 302 redirects of POST requests, are sent as GET without a body
+    const toGet =
+        (status === 303 && request.method !== "HEAD") ||
+        ((status === 301 || status === 302) && request.method === "POST");
+    const headers = new Headers(request.headers);
+    headers.delete("Cookie");
+    if (toGet) {
+        for (const name of BODY_HEADERS) headers.delete(name);
+    }
+    // Credentials are not sent to other origins
+    if (url.origin !== new URL(request.url).origin) {
+        headers.delete("Authorization");
+    }
+
+    return new Request(url.href, {
+        method: toGet ? "GET" : request.method,
+        headers,
+        body: toGet ? null : (copy?.body ?? null),
+        signal: request.signal,
+        redirect: "manual",
+        duplex: "half",
+    } as RequestInit);
+};
+
+/**
+ * Sends a request carrying the cookies of a jar, storing the cookies of its
+ * response. When following redirects, the request must be sent with
+ * `redirect: "manual"`: the redirects are followed here, so the cookies set
+ * by every response are stored and sent with the next request.
+ * @param jar - The cookie jar
+ * @param request - The request, with the cookies of the jar for its URL
+ * @param given - The Cookie header set on the request, without those of the jar
+ * @param send - Sends each request
+ * @param follow - Whether redirects are followed
+ */
+export const sendWithCookies = async (
+    jar: CookieJar,
+    request: Request,
+    given: string | null,
+    send: Transport,
+    follow: boolean,
+): Promise<Response> => {
+    let current = request;
+    for (let redirects = 0; ; redirects++) {
+        // 307 and 308 redirects send the body again
+        const copy =
+            follow && current.body ? (current.clone() as Request) : undefined;
+        const response = await send(current);
+        jar.store(response.url || current.url, response.headers.getSetCookie());
+
+        const location = response.headers.get("Location");
+        if (
+            !follow ||
+            !REDIRECT_STATUSES.includes(response.status) ||
+            location === null
+        ) {
+            return response;
+        }
+
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+            throw new TypeError(`Too many redirects from ${request.url}`);
+        }
+
+        current = redirectRequest(
+            current,
+            copy,
+            response.status,
+            new URL(location, current.url),
+        );
+        const cookie = cookieHeader(jar, current.url, given);
+        if (cookie) current.headers.set("Cookie", cookie);
+    }
+};
@@ -0,0 +1,180 @@
+import type { FileSystemAdapter } from "./index";
+import { toBlob } from "./util";
+
+/**
+ * Options for the browser file system adapter
+ */
+export type BrowserFileSystemOptions = {
+    /**
+     * Where saved files go: the origin private file system, which files can
+     * be loaded back from, or a download triggered in the browser
+     */
+    mode?: "opfs" | "download";
+};
+
+// The parts of the browser APIs used by the adapter, the DOM library is not loaded
+type BrowserGlobals = {
+    navigator: {
+        storage: {
+            getDirectory(): Promise<{
+                getFileHandle(
+                    name: string,
+                    options?: { create?: boolean },
+                ): Promise<{
+                    getFile(): Promise<Blob>;
+                    createWritable(): Promise<
+                        WritableStream<Uint8Array | Blob>
+                    >;
+                }>;
+            }>;
+        };
+    };
+    document: {
+        createElement(tag: "a"): {
+            href: string;
+            download: string;
+            click(): void;
+        };
+    };
+};
+
+/**
+ * Creates a file system adapter for Node and Bun, resolving file names against a directory.
+ * Saving resolves to the path of the written file.
+ * @param directory - Directory files are saved to and loaded from
+ */
+export const createNodeFileSystem = (directory = "."): FileSystemAdapter => {
+    // Imported lazily so the adapter does not break browser bundles
+    const modules = async () => ({
+        fs: await import("node:fs/promises"),
+        path: await import("node:path"),
+    });
+
+    return {
+        saveFile: async <R>(data: ArrayBuffer | Blob, filename: string) => {
+            const { fs, path } = await modules();
+            const target = path.resolve(directory, filename);
+            const bytes =
+                data instanceof Blob ? await data.arrayBuffer() : data;
+            await fs.writeFile(target, new Uint8Array(bytes));
+            return target as R;
+        },
+
+        saveStream: async <R>(
+            stream: ReadableStream<Uint8Array>,
+            filename: string,
+        ) => {
+            const { fs, path } = await modules();
+            const target = path.resolve(directory, filename);
+            const file = await fs.open(target, "w");
+            try {
+                for await (const chunk of stream) {
+                    await file.write(chunk);
+                }
+            } finally {
+                await file.close();
+            }
+            return target as R;
+        },
+
+        loadFile: async (filename: string) => {
+            const { fs, path } = await modules();
+            return fs.readFile(path.resolve(directory, filename));
+        },
+    };
+};
+
+/**
+ * Creates a file system adapter for browsers, backed by the origin private file system
+ * or by downloads. Loading files is only supported with the origin private file system.
+ * @param options - Adapter options
+ */
+export const createBrowserFileSystem = ({
+    mode = "opfs",
+}: BrowserFileSystemOptions = {}): FileSystemAdapter => {
+    const browser = globalThis as unknown as BrowserGlobals;
+
+    const saveFile = async <R>(data: ArrayBuffer | Blob, filename: string) => {
+        if (mode === "download") {
+            const url = URL.createObjectURL(toBlob(data));
+            try {
+                const link = browser.document.createElement("a");
+                link.href = url;
+                link.download = filename;
+                link.click();
+            } finally {
+                URL.revokeObjectURL(url);
+            }
+            return undefined as R;
+        }
+
+        const root = await browser.navigator.storage.getDirectory();
+        const handle = await root.getFileHandle(filename, { create: true });
+        const writable = await handle.createWritable();
+        const writer = writable.getWriter();
+        await writer.write(toBlob(data));
+        await writer.close();
+        return undefined as R;
+    };
+
+    return {
+        saveFile,
+
+        saveStream: async <R>(
+            stream: ReadableStream<Uint8Array>,
+            filename: string,
+        ) => {
+            if (mode === "download") {
+                return saveFile<R>(await new Response(stream).blob(), filename);
+            }
+
+            const root = await browser.navigator.storage.getDirectory();
+            const handle = await root.getFileHandle(filename, { create: true });
+            await stream.pipeTo(await handle.createWritable());
+            return undefined as R;
+        },
+
+        loadFile: async (filename: string) => {
+            if (mode === "download") {
+                throw new Error(
+                    `Cannot load "${filename}": files are not stored in download mode`,
+                );
+            }
+
+            const root = await browser.navigator.storage.getDirectory();
+            const handle = await root.getFileHandle(filename);
+            return handle.getFile();
+        },
+    };
+};
+
+const decode = (value: string): string => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Works out the name of a downloaded file from the Content-Disposition header,
+ * falling back to the last segment of the URL. Directories are stripped.
+ * @param response - The response being downloaded
+ */
+export const downloadFilename = (response: Response): string => {
+    const disposition = response.headers.get("Content-Disposition") ?? "";
+
+    const encoded = /filename\*\s*=\s*[^']*'[^']*'([^;]+)/i.exec(disposition);
+    const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(disposition);
+
+    let name = "";
+    if (encoded?.[1]) {
+        name = decode(encoded[1].trim());
+    } else if (plain) {
+        name = (plain[1] ?? plain[2] ?? "").trim();
+    } else if (response.url) {
+        name = decode(new URL(response.url).pathname.split("/").pop() ?? "");
+    }
+
+    return name.split(/[\\/]/).pop() || "download";
+};
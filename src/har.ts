@@ -0,0 +1,441 @@
+import type { FileSystemAdapter, Transport } from "./index";
+import { toBase64 } from "./util";
+
+/**
+ * A name and value pair of a HAR document
+ */
+export type HarPair = { name: string; value: string };
+
+/**
+ * A request and its response in a HAR 1.2 document. Requests failing on the
+ * network have a response with a 0 status and the error in `_error`.
+ */
+export type HarEntry = {
+    startedDateTime: string;
+    /** Total time of the exchange in milliseconds */
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        cookies: HarPair[];
+        headers: HarPair[];
+        queryString: HarPair[];
+        postData?: {
+            mimeType: string;
+            text: string;
+            /** Set to `base64` for binary bodies, which HAR cannot describe otherwise */
+            _encoding?: "base64";
+            comment?: string;
+        };
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        cookies: HarPair[];
+        headers: HarPair[];
+        content: {
+            size: number;
+            mimeType: string;
+            text?: string;
+            encoding?: "base64";
+            comment?: string;
+        };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: Record<string, never>;
+    timings: { send: number; wait: number; receive: number };
+    _error?: string;
+};
+
+/**
+ * A HAR 1.2 document
+ */
+export type Har = {
+    log: {
+        version: "1.2";
+        creator: { name: string; version: string };
+        entries: HarEntry[];
+    };
+};
+
+/**
+ * What a recorder keeps of the exchanges
+ */
+export type HarRecorderOptions = {
+    /** Maximum bytes of a body kept, longer bodies are truncated, 64 KiB by default */
+    maxBodySize?: number;
+    /** Maximum number of entries kept, the oldest are dropped, 1000 by default */
+    maxEntries?: number;
+    /** Headers whose values are redacted, the authentication and cookie headers by default */
+    redactHeaders?: (string | RegExp)[];
+    /** JSON fields, form fields and query params whose values are redacted, such as `password` */
+    redactFields?: (string | RegExp)[];
+};
+
+/**
+ * Records the requests sent by the instances it is configured on
+ */
+export interface HarRecorder {
+    /**
+     * Sends a request through a transport, recording the exchange
+     * @param request - The request
+     * @param transport - Sends the request
+     */
+    record(request: Request, transport: Transport): Promise<Response>;
+
+    /**
+     * Returns the recorded entries, bodies still being read may be incomplete
+     */
+    entries(): HarEntry[];
+
+    /**
+     * Returns the HAR document once the bodies were read. Bodies that are still
+     * being read, such as event streams, are included as they were read so far.
+     */
+    har(): Promise<Har>;
+
+    /**
+     * Writes the HAR document to a file
+     * @param fs - The file system adapter
+     * @param filename - The file name
+     */
+    save(fs: FileSystemAdapter, filename: string): Promise<void>;
+
+    /**
+     * Returns a cURL command sending the request of an entry again
+     * @param entry - A recorded entry
+     */
+    curl(entry: HarEntry): string;
+
+    /**
+     * Removes every entry
+     */
+    clear(): void;
+}
+
+const CREATOR = { name: "fetchio", version: "0.0.0" };
+
+const REDACTED = "[REDACTED]";
+
+const DEFAULT_REDACTED_HEADERS = [
+    "authorization",
+    "proxy-authorization",
+    "cookie",
+    "set-cookie",
+];
+
+const matches = (name: string, rules: (string | RegExp)[]): boolean =>
+    rules.some((rule) =>
+        typeof rule === "string"
+            ? rule.toLowerCase() === name.toLowerCase()
+            : rule.test(name),
+    );
+
+// A body being read, the chunks read so far
+type BodyRead = { chunks: Uint8Array[]; size: number };
+
+// Reads a body up to a number of bytes, cancelling the rest
+const readLimited = async (
+    stream: ReadableStream<Uint8Array>,
+    limit: number,
+    read: BodyRead,
+): Promise<void> => {
+    const reader = stream.getReader();
+    try {
+        while (read.size <= limit) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            read.chunks.push(value);
+            read.size += value.byteLength;
+        }
+    } finally {
+        reader.cancel().catch(() => {});
+    }
+};
+
+// Joins the chunks read so far, up to a number of bytes
+const joinChunks = ({ chunks, size }: BodyRead, limit: number): Uint8Array => {
+    const bytes = new Uint8Array(Math.min(size, limit));
+    let offset = 0;
+    for (const chunk of chunks) {
+        if (offset >= bytes.byteLength) break;
+        const part = chunk.subarray(0, bytes.byteLength - offset);
+        bytes.set(part, offset);
+        offset += part.byteLength;
+    }
+    return bytes;
+};
+
+// Decodes UTF-8 text, nothing for binary data. Truncated text may end within a character.
+const decodeText = (
+    bytes: Uint8Array,
+    truncated: boolean,
+): string | undefined => {
+    const decoder = new TextDecoder("utf-8", { fatal: true });
+    for (let cut = 0; cut <= (truncated ? 3 : 0); cut++) {
+        try {
+            return decoder.decode(bytes.subarray(0, bytes.byteLength - cut));
+        } catch {
+            // Not text, or cut within a character
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Creates a HAR recorder
+ * @param options - Size limits and redaction rules
+ */
+export const createHarRecorder = ({
+    maxBodySize = 64 * 1024,
+    maxEntries = 1000,
+    redactHeaders = DEFAULT_REDACTED_HEADERS,
+    redactFields = [],
+}: HarRecorderOptions = {}): HarRecorder => {
+    let recorded: HarEntry[] = [];
+    // Bodies still being read, with a function recording what was read so far
+    const pending = new Map<Promise<void>, () => void>();
+
+    const headerPairs = (headers: Headers): HarPair[] =>
+        [...headers].map(([name, value]) => ({
+            name,
+            value: matches(name, redactHeaders) ? REDACTED : value,
+        }));
+
+    const redactParams = (params: URLSearchParams): URLSearchParams => {
+        for (const key of new Set(params.keys())) {
+            if (matches(key, redactFields)) params.set(key, REDACTED);
+        }
+        return params;
+    };
+
+    const redactUrl = (url: string): string => {
+        if (redactFields.length === 0) return url;
+        const parsed = new URL(url);
+        if (!parsed.search) return url;
+        parsed.search = redactParams(parsed.searchParams).toString();
+        return parsed.href;
+    };
+
+    // Redacts the fields of JSON and form bodies, even when they are truncated
+    const redactText = (text: string, mimeType: string): string => {
+        if (redactFields.length === 0) return text;
+        if (mimeType.includes("x-www-form-urlencoded")) {
+            return redactParams(new URLSearchParams(text)).toString();
+        }
+        return text.replace(
+            /"((?:[^"\\]|\\.)*)"(\s*:\s*)("(?:[^"\\]|\\.)*"?|-?[\d.eE+-]+|true|false|null)/g,
+            (pair, key: string, separator: string) =>
+                matches(key, redactFields)
+                    ? `"${key}"${separator}"${REDACTED}"`
+                    : pair,
+        );
+    };
+
+    // Describes a body read so far as text, or base64 when it is binary
+    const toContent = (read: BodyRead, mimeType: string, complete: boolean) => {
+        const { size } = read;
+        const bytes = joinChunks(read, maxBodySize);
+        const truncated = size > maxBodySize;
+        const comment = truncated
+            ? `Truncated to ${maxBodySize} of ${size} bytes`
+            : complete
+              ? undefined
+              : `Incomplete, ${size} bytes were read when exported`;
+        const text = decodeText(bytes, truncated || !complete);
+        return text === undefined
+            ? {
+                  size,
+                  text: toBase64(bytes),
+                  encoding: "base64" as const,
+                  comment,
+              }
+            : { size, text: redactText(text, mimeType), comment };
+    };
+
+    // Reads a body, recording its content once it was read, or what was read so
+    // far when the document is exported before
+    const readContent = (
+        stream: ReadableStream<Uint8Array>,
+        mimeType: string,
+        apply: (
+            content: ReturnType<typeof toContent>,
+            complete: boolean,
+        ) => void,
+    ) => {
+        const read: BodyRead = { chunks: [], size: 0 };
+        const reading = readLimited(stream, maxBodySize, read)
+            .then(() => apply(toContent(read, mimeType, true), true))
+            .catch(() => {})
+            .finally(() => {
+                pending.delete(reading);
+            });
+        pending.set(reading, () =>
+            apply(toContent(read, mimeType, false), false),
+        );
+    };
+
+    const quote = (value: string): string =>
+        `'${value.replace(/'/g, "'\\''")}'`;
+
+    const recorder: HarRecorder = {
+        record: async (request, transport) => {
+            const startedDateTime = new Date().toISOString();
+            const start = performance.now();
+            const url = redactUrl(request.url);
+            const mimeType = request.headers.get("Content-Type") ?? "";
+
+            const entry: HarEntry = {
+                startedDateTime,
+                time: 0,
+                request: {
+                    method: request.method,
+                    url,
+                    httpVersion: "HTTP/1.1",
+                    cookies: [],
+                    headers: headerPairs(request.headers),
+                    queryString: [...new URL(url).searchParams].map(
+                        ([name, value]) => ({ name, value }),
+                    ),
+                    headersSize: -1,
+                    bodySize: request.body ? -1 : 0,
+                },
+                response: {
+                    status: 0,
+                    statusText: "",
+                    httpVersion: "HTTP/1.1",
+                    cookies: [],
+                    headers: [],
+                    content: { size: 0, mimeType: "" },
+                    redirectURL: "",
+                    headersSize: -1,
+                    bodySize: -1,
+                },
+                cache: {},
+                timings: { send: 0, wait: 0, receive: 0 },
+            };
+            recorded.push(entry);
+            if (recorded.length > maxEntries) recorded.shift();
+
+            // The request is cloned before the transport reads its body
+            if (request.body) {
+                readContent(
+                    (request.clone() as Request)
+                        .body as ReadableStream<Uint8Array>,
+                    mimeType,
+                    ({ size, text, encoding, comment }) => {
+                        entry.request.bodySize = size;
+                        entry.request.postData = {
+                            mimeType,
+                            text,
+                            _encoding: encoding,
+                            comment,
+                        };
+                    },
+                );
+            }
+
+            let response: Response;
+            try {
+                response = await transport(request);
+            } catch (error) {
+                entry.time = entry.timings.wait = performance.now() - start;
+                entry._error =
+                    error instanceof Error ? error.message : String(error);
+                throw error;
+            }
+
+            const wait = performance.now() - start;
+            const contentType = response.headers.get("Content-Type") ?? "";
+            entry.timings.wait = wait;
+            entry.time = wait;
+            entry.response = {
+                ...entry.response,
+                status: response.status,
+                statusText: response.statusText,
+                headers: headerPairs(response.headers),
+                content: { size: 0, mimeType: contentType },
+                redirectURL: response.headers.get("Location") ?? "",
+            };
+
+            if (response.body) {
+                const { body } = response.clone() as Response;
+                readContent(
+                    body as ReadableStream<Uint8Array>,
+                    contentType,
+                    ({ size, text, encoding, comment }, complete) => {
+                        if (complete) {
+                            const receive = performance.now() - start - wait;
+                            entry.timings.receive = receive;
+                            entry.time = wait + receive;
+                        }
+                        entry.response.bodySize = size;
+                        entry.response.content = {
+                            size,
+                            mimeType: contentType,
+                            text,
+                            encoding,
+                            comment,
+                        };
+                    },
+                );
+            } else {
+                entry.response.bodySize = 0;
+            }
+            return response;
+        },
+
+        entries: () => [...recorded],
+
+        har: async () => {
+            // Bodies still being read after that, such as event streams, are
+            // exported as they were read so far
+            await Promise.race([
+                Promise.all(pending.keys()),
+                new Promise((resolve) => setTimeout(resolve, 0)),
+            ]);
+            for (const snapshot of pending.values()) snapshot();
+            return {
+                log: {
+                    version: "1.2",
+                    creator: CREATOR,
+                    entries: [...recorded],
+                },
+            };
+        },
+
+        save: async (fs, filename) => {
+            const json = JSON.stringify(await recorder.har(), null, 2);
+            await fs.saveFile(await new Blob([json]).arrayBuffer(), filename);
+        },
+
+        curl: ({ request }) => {
+            const parts = ["curl", "-X", request.method, quote(request.url)];
+            for (const { name, value } of request.headers) {
+                // Set by curl from the body
+                if (name.toLowerCase() === "content-length") continue;
+                parts.push("-H", quote(`${name}: ${value}`));
+            }
+
+            const { postData } = request;
+            if (!postData) return parts.join(" ");
+            if (postData._encoding === "base64") {
+                // Binary bodies are decoded and piped to curl
+                return `echo ${quote(postData.text)} | base64 -d | ${parts.join(" ")} --data-binary @-`;
+            }
+            return `${parts.join(" ")} --data-raw ${quote(postData.text)}`;
+        },
+
+        clear: () => {
+            recorded = [];
+        },
+    };
+
+    return recorder;
+};
@@ -0,0 +1,136 @@
+import type { FetchError, FetchResult } from "./index";
+
+/**
+ * Timings of a request, in milliseconds
+ */
+export type RequestTimings = {
+    /** Time the request started, since the epoch */
+    start: number;
+    /** Time until the response headers arrived, since the start */
+    headers?: number;
+    /** Time until the response body was read, since the start */
+    body?: number;
+};
+
+/**
+ * Describes a request to the lifecycle hooks
+ */
+export type RequestContext = {
+    /** Identifies the request, the same for all its attempts */
+    id: string;
+    method: string;
+    /** The URL of the request, the final one once it is sent */
+    url: string;
+    /** The current attempt, starting at 1 once the request is sent */
+    attempt: number;
+    /** The status of the last response */
+    status?: number;
+    timings: RequestTimings;
+    /** The request of the current attempt, its headers can still be changed in `onRequest` */
+    request?: Request;
+};
+
+/**
+ * Functions called along the lifecycle of every request. Errors thrown by
+ * hooks are ignored, so observing requests never breaks them.
+ */
+export type LifecycleHooks = {
+    /** Called before every attempt is sent */
+    onRequest?: (context: RequestContext) => void | Promise<void>;
+    /** Called when the response headers of an attempt arrive */
+    onResponse?: (context: RequestContext) => void;
+    /** Called before waiting to retry, with the delay in milliseconds */
+    onRetry?: (context: RequestContext & { delay: number }) => void;
+    /** Called once when the request fails */
+    onError?: (context: RequestContext & { error: FetchError }) => void;
+    /** Called once when the request is done, after its body was read */
+    onComplete?: (
+        context: RequestContext & { result: FetchResult<unknown> },
+    ) => void;
+};
+
+/**
+ * The parts of an OpenTelemetry span used by the tracing hooks
+ */
+export interface SpanLike {
+    spanContext(): { traceId: string; spanId: string; traceFlags: number };
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(): void;
+}
+
+/**
+ * The parts of an OpenTelemetry tracer used by the tracing hooks,
+ * such as `trace.getTracer("fetchio")`
+ */
+export interface TracerLike {
+    startSpan(
+        name: string,
+        options?: {
+            kind?: number;
+            attributes?: Record<string, string | number | boolean>;
+        },
+    ): SpanLike;
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Creates hooks tracing every request with a client span, following the
+ * OpenTelemetry HTTP conventions, and propagating it with a `traceparent` header
+ * @param tracer - An OpenTelemetry tracer
+ */
+export const createTracingHooks = (tracer: TracerLike): LifecycleHooks => {
+    const spans = new Map<string, SpanLike>();
+
+    return {
+        onRequest: ({ id, method, url, attempt, request }) => {
+            let span = spans.get(id);
+            if (!span) {
+                span = tracer.startSpan(method, {
+                    kind: SPAN_KIND_CLIENT,
+                    attributes: {
+                        "http.request.method": method,
+                        "url.full": url,
+                    },
+                });
+                spans.set(id, span);
+            }
+            if (attempt > 1) {
+                span.setAttribute("http.request.resend_count", attempt - 1);
+            }
+
+            const { traceId, spanId, traceFlags } = span.spanContext();
+            const flags = traceFlags.toString(16).padStart(2, "0");
+            request?.headers.set(
+                "traceparent",
+                `00-${traceId}-${spanId}-${flags}`,
+            );
+        },
+
+        onResponse: ({ id, status }) => {
+            if (status !== undefined) {
+                spans
+                    .get(id)
+                    ?.setAttribute("http.response.status_code", status);
+            }
+        },
+
+        onComplete: ({ id, result }) => {
+            const span = spans.get(id);
+            if (!span) return;
+            spans.delete(id);
+
+            if (!result.ok) {
+                span.setAttribute("error.type", result.error.kind);
+                span.setStatus({
+                    code: SPAN_STATUS_ERROR,
+                    message: result.error.kind,
+                });
+            }
+            span.end();
+        },
+    };
+};
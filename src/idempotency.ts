@@ -0,0 +1,76 @@
+/**
+ * How idempotency keys are sent, letting the server recognize repeated requests
+ */
+export type IdempotencyConfig = {
+    /** Header carrying the key, `Idempotency-Key` by default */
+    header?: string;
+    /** Generates the keys, `crypto.randomUUID` by default */
+    generateKey?: () => string;
+    /** Methods sent with a key, POST and PATCH by default */
+    methods?: string[];
+    /**
+     * Time in milliseconds during which a request identical to a previous one,
+     * with the same method, URL and body, reuses its key. Disabled by default.
+     */
+    window?: number;
+};
+
+const DEFAULT_IDEMPOTENCY: Required<IdempotencyConfig> = {
+    header: "Idempotency-Key",
+    generateKey: () => crypto.randomUUID(),
+    methods: ["POST", "PATCH"],
+    window: 0,
+};
+
+// Keys sent within the window per configuration, by request fingerprint
+const remembered = new WeakMap<
+    IdempotencyConfig,
+    Map<string, { key: string; expires: number }>
+>();
+
+/**
+ * Resolves the idempotency option, nothing when it is disabled
+ * @param option - The configuration, or whether the defaults are used
+ */
+export const resolveIdempotency = (
+    option: IdempotencyConfig | boolean | undefined,
+): Required<IdempotencyConfig> | undefined => {
+    if (!option) return undefined;
+    if (option === true) return DEFAULT_IDEMPOTENCY;
+    return { ...DEFAULT_IDEMPOTENCY, ...option };
+};
+
+/**
+ * Returns the key of a request, reusing the key of an identical request
+ * sent within the window
+ * @param config - The configuration, whose window is shared by every request using it
+ * @param fingerprint - Identifies the request, nothing when it cannot be compared
+ */
+export const idempotencyKey = (
+    config: IdempotencyConfig | true,
+    fingerprint: string | undefined,
+): string => {
+    const { generateKey, window } =
+        resolveIdempotency(config) ?? DEFAULT_IDEMPOTENCY;
+    if (config === true || window <= 0 || fingerprint === undefined) {
+        return generateKey();
+    }
+
+    let keys = remembered.get(config);
+    if (!keys) {
+        keys = new Map();
+        remembered.set(config, keys);
+    }
+
+    const now = Date.now();
+    for (const [print, { expires }] of keys) {
+        if (expires <= now) keys.delete(print);
+    }
+
+    const found = keys.get(fingerprint);
+    if (found) return found.key;
+
+    const key = generateKey();
+    keys.set(fingerprint, { key, expires: now + window });
+    return key;
+};
@@ -1,3 +1,177 @@
+import {
+    authHeaders,
+    currentToken,
+    refreshAuth,
+    type AuthConfig,
+} from "./auth";
+import {
+    circuitKey,
+    CircuitOpen,
+    createCircuitBreaker,
+    type BreakerConfig,
+    type CircuitBreaker,
+} from "./breaker";
+import {
+    headerValue,
+    parseJson,
+    readBody,
+    serializeBody,
+    type Deserializers,
+    type JsonOptions,
+    type Serializers,
+} from "./body";
+import {
+    cachedFetch,
+    createMemoryCache,
+    type CacheConfig,
+    type CacheMode,
+    type CacheStore,
+} from "./cache";
+
+import { downloadFilename } from "./fs";
+import {
+    createEventStream,
+    type EventStream,
+    type EventStreamOptions,
+} from "./sse";
+import {
+    isRoute,
+    type ApiClient,
+    type ApiDefinition,
+    type RouteDefinition,
+    type TypeSpec,
+} from "./contract";
+import {
+    paginate,
+    type PaginateOptions,
+    type Paginated,
+    type PaginationStrategy,
+} from "./paginate";
+import { cookieHeader, sendWithCookies, type CookieJar } from "./cookies";
+import type { HarRecorder } from "./har";
+import type { LifecycleHooks, RequestContext } from "./hooks";
+import {
+    createLimiter,
+    QueueFull,
+    type Limiter,
+    type LimitsConfig,
+} from "./limit";
+import {
+    idempotencyKey,
+    resolveIdempotency,
+    type IdempotencyConfig,
+} from "./idempotency";
+import {
+    captureMutation,
+    createOfflineQueue,
+    type OfflineConfig,
+    type OfflineQueue,
+    ReplayFailed,
+} from "./offline";
+import { parseNdjson, readLines } from "./stream";
+import {
+    fillPath,
+    withQuery,
+    type ArrayFormat,
+    type PathArgs,
+    type QueryParams,
+    type QueryValue,
+} from "./url";
+import {
+    withDownloadProgress,
+    withUploadProgress,
+    type ProgressCallback,
+    type UploadBody,
+} from "./progress";
+import { parseRetryAfter, sleep, toBlob } from "./util";
+
+export type { AuthConfig, TokenGetter, TokenRefresher } from "./auth";
+export type {
+    Deserializer,
+    Deserializers,
+    JsonOptions,
+    Serializer,
+    Serializers,
+} from "./body";
+export { createCircuitBreaker } from "./breaker";
+export type {
+    BreakerConfig,
+    CircuitBreaker,
+    CircuitEvent,
+    CircuitState,
+} from "./breaker";
+export { createMemoryCache } from "./cache";
+export { defineApi, typed } from "./contract";
+export { createCookieJar } from "./cookies";
+export type { Cookie, CookieJar } from "./cookies";
+export { createHarRecorder } from "./har";
+export type {
+    Har,
+    HarEntry,
+    HarPair,
+    HarRecorder,
+    HarRecorderOptions,
+} from "./har";
+export { createTracingHooks } from "./hooks";
+export type {
+    LifecycleHooks,
+    RequestContext,
+    RequestTimings,
+    SpanLike,
+    TracerLike,
+} from "./hooks";
+export type { IdempotencyConfig } from "./idempotency";
+export { createLimiter } from "./limit";
+export type { Limiter, LimitsConfig } from "./limit";
+export { createMockTransport } from "./mock";
+export { createOfflineQueue } from "./offline";
+export type {
+    ConflictHandler,
+    OfflineConfig,
+    OfflineQueue,
+    QueuedMutation,
+} from "./offline";
+export type {
+    ItemsSelector,
+    Page,
+    PageFunction,
+    PageRequest,
+    PaginateOptions,
+    Paginated,
+    PaginationStrategy,
+} from "./paginate";
+export type {
+    MockCall,
+    MockHandler,
+    MockMatcher,
+    MockReply,
+    MockTransport,
+    MockTransportOptions,
+} from "./mock";
+export type {
+    ApiClient,
+    ApiDefinition,
+    RouteArgs,
+    RouteDefinition,
+    RouteMethod,
+    RouteResponse,
+    Typed,
+    TypeSpec,
+} from "./contract";
+export type { CacheConfig, CacheEntry, CacheMode, CacheStore } from "./cache";
+export { createBrowserFileSystem, createNodeFileSystem } from "./fs";
+export type { BrowserFileSystemOptions } from "./fs";
+export type { Progress, ProgressCallback } from "./progress";
+export type { EventStream, EventStreamOptions, ServerSentEvent } from "./sse";
+export type {
+    ArrayFormat,
+    PathArgs,
+    PathParamNames,
+    PathParams,
+    QueryParams,
+    QueryValue,
+} from "./url";
+
 /**
  * A function for processing requests before they are sent
  */
@@ -7,42 +181,251 @@ export type RequestInterceptor = (
 ) => Promise<{ url: string; options: FetchioConfig }>;
 
 /**
- * The result of a fetch operation
+ * The result of a fetch operation, discriminated by `ok`
+ */
+export type FetchResult<T> = FetchSuccess<T> | FetchFailure<T>;
+
+/**
+ * A fetch operation that produced a successful response
+ */
+export type FetchSuccess<T> = {
+    ok: true;
+    data: T;
+    status: number;
+    headers: Headers;
+    attempts?: number;
+    /** Same as `ok`, kept for compatibility */
+    success: true;
+    /** Never set, lets `result.error?.kind` be read without narrowing on `ok` */
+    error?: undefined;
+    /** Never set, lets `result.queued` be read without narrowing on `ok` */
+    queued?: undefined;
+};
+
+/**
+ * A fetch operation that failed, the error describes why
  */
-export type FetchResult<T> = {
+export type FetchFailure<T = unknown> = {
+    ok: false;
+    error: FetchError;
+    status?: number;
+    headers?: Headers;
+    attempts?: number;
+    /** Same as `ok`, kept for compatibility */
+    success: false;
+    /** The error body for HTTP errors and null otherwise, kept for compatibility */
+    data: T | null;
+    /** The result of a mutation waiting in the offline queue, once it was replayed */
+    queued?: Promise<FetchResult<T>>;
+};
+
+/**
+ * The shape of results before `ok` was introduced. Response interceptors
+ * may still return it and it is converted to a FetchResult.
+ */
+export type LegacyFetchResult<T> = {
     success: boolean;
     data: T | null;
 };
 
 /**
- * A function for processing responses
+ * The reason a fetch operation failed
+ */
+export type FetchError =
+    | { kind: "http"; status: number; statusText: string; body: unknown }
+    | { kind: "network"; cause: unknown }
+    | { kind: "parse"; cause: unknown }
+    | { kind: "serialize"; cause: unknown }
+    | {
+          kind: "validation";
+          source: "body" | "query" | "response";
+          issues: ValidationIssue[];
+      }
+    | { kind: "missing-adapter"; adapter: "fs" }
+    | { kind: "fs"; cause: unknown }
+    | { kind: "abort"; reason: unknown }
+    | { kind: "timeout"; timeout: number }
+    | { kind: "queue-full"; maxQueue: number }
+    | { kind: "circuit-open"; key: string; retryAt: number }
+    | { kind: "queued"; id: string; cause: unknown }
+    | { kind: "replay"; cause: unknown };
+
+/**
+ * A problem reported while validating a value, the path locates it in the value
+ */
+export type ValidationIssue = {
+    message: string;
+    path: PropertyKey[];
+};
+
+/**
+ * A validator implementing the Standard Schema interface (https://standardschema.dev)
+ */
+export interface StandardSchema<Input = unknown, Output = Input> {
+    readonly "~standard": {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (
+            value: unknown,
+        ) => StandardResult<Output> | Promise<StandardResult<Output>>;
+        readonly types?: { readonly input: Input; readonly output: Output };
+    };
+}
+
+/**
+ * The outcome of a Standard Schema validation
+ */
+export type StandardResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | {
+          readonly issues: ReadonlyArray<{
+              readonly message: string;
+              readonly path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+          }>;
+      };
+
+/**
+ * The output type of a Standard Schema
+ */
+export type InferOutput<S extends StandardSchema> = NonNullable<
+    S["~standard"]["types"]
+>["output"];
+
+/**
+ * A Standard Schema or a function that returns the parsed value and throws when it is invalid
+ */
+export type Validator<T> = StandardSchema<unknown, T> | ((value: unknown) => T);
+
+/**
+ * Per-request options accepted by the methods sending a body
+ */
+export type RequestOptions<T> = FetchioConfig & {
+    /** Validates the body before it is sent, the validated value is sent */
+    bodySchema?: Validator<T>;
+};
+
+/**
+ * A function for processing responses. Calling `next` hands the response
+ * (or a replacement) to the following interceptor, and eventually to the
+ * default response processing.
  */
 export type ResponseInterceptor = (
     response: Response,
-) => Promise<FetchResult<unknown>>;
+    next: (response?: Response) => Promise<FetchResult<unknown>>,
+) => Promise<FetchResult<unknown> | LegacyFetchResult<unknown>>;
 
 /**
- * FileSystem definitions to adapt to each platform
+ * Request and response interceptors registered together on an instance
+ */
+export type Interceptor = {
+    request?: RequestInterceptor;
+    response?: ResponseInterceptor;
+};
+
+/**
+ * FileSystem definitions to adapt to each platform. When `saveStream` is
+ * implemented, downloads are written without buffering the whole body.
  */
 export type FileSystemAdapter = {
     saveFile<R>(data: ArrayBuffer | Blob, filename: string): Promise<R>;
+    saveStream?<R>(
+        stream: ReadableStream<Uint8Array>,
+        filename: string,
+    ): Promise<R>;
     loadFile(filename: string): Promise<Buffer | Blob | ArrayBuffer>;
 };
 
+/**
+ * Sends a request and resolves to its response, `fetch` by default
+ */
+export type Transport = (request: Request) => Promise<Response>;
+
+/**
+ * Policy describing when and how failed requests are retried
+ */
+export type RetryConfig = {
+    /** Maximum number of attempts, including the first one */
+    attempts?: number;
+    /** Response statuses that trigger a retry */
+    statuses?: number[];
+    /** Whether network errors are retried, or a predicate deciding it per error */
+    networkErrors?: boolean | ((error: unknown) => boolean);
+    /** Methods that may be retried, only idempotent ones by default */
+    methods?: string[];
+    /** Delay before the first retry in milliseconds */
+    delay?: number;
+    /** Upper bound for a single delay in milliseconds */
+    maxDelay?: number;
+    /** Multiplier applied to the delay after each attempt */
+    factor?: number;
+    /** Picks a random delay between zero and the computed backoff */
+    jitter?: boolean;
+    /** Waits for the duration requested by a `Retry-After` header */
+    retryAfter?: boolean;
+};
+
+/**
+ * Retry option accepted by the configuration and the request builder.
+ * A number sets the maximum attempts, `true` uses the default policy
+ * and `false` disables retries.
+ */
+export type RetryOption = RetryConfig | number | boolean;
+
 /**
  * Fetchio configuration options
  */
-export interface FetchioConfig extends RequestInit {
+export interface FetchioConfig extends RequestInit, LifecycleHooks {
     requestInterceptor?: RequestInterceptor;
     responseInterceptor?: ResponseInterceptor;
     headers?: Record<string, string>;
     fs?: FileSystemAdapter;
+    retry?: RetryOption;
+    timeout?: number;
+    httpCache?: CacheConfig | boolean;
+    cache?: CacheMode;
+    dedupe?: boolean;
+    /** How arrays are written in the query string, `repeat` by default */
+    arrayFormat?: ArrayFormat;
+    transport?: Transport;
+    /** Authenticates requests, `false` disables the authentication inherited from a parent */
+    auth?: AuthConfig | false;
+    /** Limits the requests of the instance and the instances created from it, unless they set their own */
+    limits?: LimitsConfig | Limiter | false;
+    /** Fails requests fast while their server keeps failing, shared like `limits` */
+    breaker?: BreakerConfig | CircuitBreaker | false;
+    /** Encode payloads for the content types they are keyed by, such as `application/msgpack` */
+    serializers?: Serializers;
+    /** Decode the responses of `auto()` and error responses for the content types they are keyed by */
+    deserializers?: Deserializers;
+    /** How JSON bodies are parsed and encoded */
+    json?: JsonOptions;
+    /** Sends idempotency keys with POST and PATCH requests, the same key for every retry of a request */
+    idempotency?: IdempotencyConfig | boolean;
+    /** Queues the mutations failing on the network and replays them once it is back, shared like `limits` */
+    offline?: OfflineConfig | OfflineQueue | false;
+    /** Stores the cookies of responses and sends them with later requests */
+    cookies?: CookieJar;
+    /** Records the requests of the instance and the instances created from it */
+    recorder?: HarRecorder;
 }
 
 /**
  * Fetchio instance with all available methods
  */
 export interface Fetchio {
+    /**
+     * Registers interceptors on this instance and every instance created from it
+     * @param interceptor - Request and/or response interceptor to append to the chain
+     * @returns An id that can be passed to `eject`
+     */
+    use(interceptor: Interceptor): number;
+
+    /**
+     * Removes interceptors previously registered with `use` on this instance
+     * @param id - The id returned by `use`
+     */
+    eject(id: number): void;
+
     /**
      * Appends a path to the current base path
      * @param append - The path to append to the current base path
@@ -51,48 +434,72 @@ export interface Fetchio {
 
     /**
      * Performs a GET request
-     * @param url - The URL to request (appended to the base path)
+     * @param url - The URL to request (appended to the base path), `:param` segments are filled from `pathParams`
      * @param options - Additional request options to merge with the current configuration
      */
-    get(url?: string, options?: FetchioConfig): RequestBuilder;
+    get<P extends string = "">(
+        url?: P,
+        ...options: PathArgs<P, FetchioConfig>
+    ): RequestBuilder;
 
     /**
      * Performs a POST request
-     * @param url - The URL to request (appended to the base path)
+     * @param url - The URL to request (appended to the base path), `:param` segments are filled from `pathParams`
      * @param data - Optional data to send or request configuration
-     * @param options - Additional request options to merge with the current configuration
+     * @param options - Additional request options to merge with the current configuration, and an optional body schema
      */
-    post<T>(url: string, data?: T, options?: FetchioConfig): RequestBuilder;
+    post<T, P extends string = string>(
+        url: P,
+        data?: T,
+        ...options: PathArgs<P, RequestOptions<T>>
+    ): RequestBuilder;
 
     /**
      * Performs a PUT request
-     * @param url - The URL to request (appended to the base path)
+     * @param url - The URL to request (appended to the base path), `:param` segments are filled from `pathParams`
      * @param data - Optional data to send or request configuration
-     * @param options - Additional request options to merge with the current configuration
+     * @param options - Additional request options to merge with the current configuration, and an optional body schema
      */
-    put<T>(url: string, data?: T, options?: FetchioConfig): RequestBuilder;
+    put<T, P extends string = string>(
+        url: P,
+        data?: T,
+        ...options: PathArgs<P, RequestOptions<T>>
+    ): RequestBuilder;
 
     /**
      * Performs a PATCH request
-     * @param url - The URL to request (appended to the base path)
+     * @param url - The URL to request (appended to the base path), `:param` segments are filled from `pathParams`
      * @param data - Optional data to send or request configuration
-     * @param options - Additional request options to merge with the current configuration
+     * @param options - Additional request options to merge with the current configuration, and an optional body schema
      */
-    patch<T>(url: string, data?: T, options?: FetchioConfig): RequestBuilder;
+    patch<T, P extends string = string>(
+        url: P,
+        data?: T,
+        ...options: PathArgs<P, RequestOptions<T>>
+    ): RequestBuilder;
 
     /**
      * Performs a DELETE request
-     * @param url - The URL to request (appended to the base path)
+     * @param url - The URL to request (appended to the base path), `:param` segments are filled from `pathParams`
      * @param options - Additional request options to merge with the current configuration
      */
-    del(url?: string, options?: FetchioConfig): RequestBuilder;
+    del<P extends string = "">(
+        url?: P,
+        ...options: PathArgs<P, FetchioConfig>
+    ): RequestBuilder;
 
     /**
-     * Creates a new Fetchio instance with an appended path and merged configuration
+     * Creates a new Fetchio instance with an appended path and merged configuration.
+     * The new instance inherits the interceptor chain and appends the interceptors of `pathConfig`.
      * @param subPath - The path to append to the current base path
      * @param pathConfig - Additional configuration to merge with the current configuration
      */
     sub(subPath: string, pathConfig?: FetchioConfig): Fetchio;
+
+    /**
+     * Replays the mutations waiting in the offline queue, in order
+     */
+    flush(): Promise<void>;
 }
 
 /**
@@ -100,17 +507,20 @@ export interface Fetchio {
  */
 export interface RequestBuilder extends ResponseBuilder {
     /**
-     * Add a query parameter to the request URL
+     * Add a query parameter to the request URL, replacing any parameter of the same name
      * @param key - Parameter name
-     * @param value - Parameter value
+     * @param value - Parameter value, an array sending one value per item
      */
-    param(key: string, value: string): RequestBuilder;
+    param(
+        key: string,
+        value: QueryValue | readonly QueryValue[],
+    ): RequestBuilder;
 
     /**
      * Add multiple query parameters to the request URL
      * @param params - Object containing parameter key-value pairs
      */
-    params(params: Record<string, string>): RequestBuilder;
+    params(params: QueryParams): RequestBuilder;
 
     /**
      * Add a header to the request
@@ -130,17 +540,117 @@ export interface RequestBuilder extends ResponseBuilder {
      * @param segment - Path segment to append
      */
     path(segment: string): RequestBuilder;
+
+    /**
+     * Override the retry policy for this request
+     * @param retry - Retry policy, maximum attempts or a flag toggling the default policy
+     */
+    retry(retry: RetryOption): RequestBuilder;
+
+    /**
+     * Abort the request when it takes longer than the given time, retries included
+     * @param ms - Timeout in milliseconds
+     */
+    timeout(ms: number): RequestBuilder;
+
+    /**
+     * Abort the request when the given signal is aborted
+     * @param signal - Signal controlling the request
+     */
+    signal(signal: AbortSignal): RequestBuilder;
+
+    /**
+     * Set how this request uses the HTTP cache. Without `httpCache` configured
+     * the mode is passed on to fetch.
+     * @param mode - The cache mode
+     */
+    cache(mode: CacheMode): RequestBuilder;
+
+    /**
+     * Override the authentication of this request
+     * @param auth - Authentication configuration, or `false` to send the request without credentials
+     */
+    auth(auth: AuthConfig | false): RequestBuilder;
+
+    /**
+     * Set the priority of this request in the queue of the limiter
+     * @param priority - Requests with a higher priority are sent first, 0 by default
+     */
+    priority(priority: number): RequestBuilder;
+
+    /**
+     * Configure the idempotency key sent with this request
+     * @param idempotency - The key to send, a configuration, or whether keys are sent
+     */
+    idempotency(
+        idempotency: IdempotencyConfig | boolean | string,
+    ): RequestBuilder;
+
+    /**
+     * Send a file loaded through the configured FileSystemAdapter as the request body
+     * @param path - Path passed to `loadFile`
+     * @param contentType - Content type of the body, taken from the loaded file or `application/octet-stream` by default
+     */
+    file(path: string, contentType?: string): RequestBuilder;
+
+    /**
+     * Send the request as multipart/form-data with a file loaded through the configured
+     * FileSystemAdapter. The fields of a FormData or object payload are kept as parts.
+     * @param field - Name of the form field
+     * @param path - Path passed to `loadFile`
+     * @param filename - File name sent with the part, the last segment of the path by default
+     */
+    attach(field: string, path: string, filename?: string): RequestBuilder;
+
+    /**
+     * Report the progress of reading the response body
+     * @param callback - Receives the loaded bytes, the total from Content-Length when present, and the rate
+     */
+    onDownloadProgress(callback: ProgressCallback): RequestBuilder;
+
+    /**
+     * Report the progress of sending the request body, which is then sent as a stream
+     * @param callback - Receives the sent bytes, the total when known, and the rate
+     */
+    onUploadProgress(callback: ProgressCallback): RequestBuilder;
 }
 
 /**
  * Response builder that provides methods to process the response in different formats
  */
 export interface ResponseBuilder {
+    /**
+     * Process the response as JSON and validate it with a Standard Schema
+     * @param schema - Schema the response body must satisfy
+     */
+    json<S extends StandardSchema>(
+        schema: S,
+    ): Promise<FetchResult<InferOutput<S>>>;
+
+    /**
+     * Process the response as JSON and parse it with the given function
+     * @param parse - Function returning the parsed value, throwing when the body is invalid
+     */
+    json<T>(parse: (value: unknown) => T): Promise<FetchResult<T>>;
+
+    /**
+     * Process the response as JSON and validate it with a schema or a parse function
+     * @param validator - The Standard Schema or the parse function
+     */
+    json<T>(validator: Validator<T>): Promise<FetchResult<T>>;
+
     /**
      * Process the response as JSON and return it as the specified type
      */
     json<T>(): Promise<FetchResult<T>>;
 
+    /**
+     * Process the response according to its Content-Type: JSON is parsed, text is
+     * returned as a string, other types as a Blob unless a deserializer is configured
+     * for them, and empty bodies are null
+     */
+    auto<T = unknown>(): Promise<FetchResult<T>>;
+
     /**
      * Process the response as a string
      */
@@ -160,15 +670,362 @@ export interface ResponseBuilder {
      * Process the response as a blob
      */
     blob(): Promise<FetchResult<Blob>>;
+
+    /**
+     * Save the response through the configured FileSystemAdapter, streaming it when
+     * the adapter supports it. Resolves with the value returned by the adapter.
+     * @param filename - Name of the saved file, taken from Content-Disposition or the URL by default
+     */
+    download<R = unknown>(filename?: string): Promise<FetchResult<R>>;
+
+    /**
+     * Stream the response body as raw chunks. Failures are thrown as FetchioError,
+     * and leaving the loop early aborts the request.
+     */
+    stream(): AsyncIterable<Uint8Array>;
+
+    /**
+     * Stream the response body as decoded text lines, without line terminators
+     */
+    lines(): AsyncIterable<string>;
+
+    /**
+     * Stream the response body as newline delimited JSON, one value per line
+     */
+    ndjson<T>(): AsyncIterable<T>;
+
+    /**
+     * Consume the response as Server-Sent Events. The request is sent again with
+     * `Last-Event-ID` when the connection ends or fails on the network.
+     * @param options - Data parsing and reconnection options
+     */
+    sse<T = string>(options?: EventStreamOptions<T>): EventStream<T>;
+
+    /**
+     * Iterate the items of a paginated endpoint, fetching pages as they are needed.
+     * Every page is sent with the params, headers and interceptors of this request.
+     * @param strategy - How the pages are linked, or a function reading every page
+     * @param options - Maximum pages and items
+     */
+    paginate<T>(
+        strategy: PaginationStrategy<T>,
+        options?: PaginateOptions,
+    ): Paginated<T>;
 }
 
 /**
  * Function that creates a new Fetchio instance
  */
-export type CreateFetchio = (
-    basePath?: string,
-    config?: FetchioConfig,
-) => Fetchio;
+export type CreateFetchio = {
+    (basePath?: string, config?: FetchioConfig): Fetchio;
+    /**
+     * Creates a client with a typed method for every route of an API contract
+     * @param api - The contract created with `defineApi`
+     */
+    <A extends ApiDefinition>(
+        basePath: string,
+        config: FetchioConfig | undefined,
+        api: A,
+    ): ApiClient<A>;
+};
+
+/**
+ * Error thrown by the consumers that cannot resolve to a FetchResult, such as streams
+ */
+export class FetchioError extends Error {
+    constructor(
+        readonly error: FetchError,
+        readonly status?: number,
+    ) {
+        super(`Request failed: ${error.kind}`);
+        this.name = "FetchioError";
+    }
+}
+
+type ResponseType =
+    | "auto"
+    | "json"
+    | "text"
+    | "arrayBuffer"
+    | "void"
+    | "blob"
+    | "file"
+    | "stream";
+
+// Wraps errors raised by fetch itself, so they are not confused with interceptor errors
+class NetworkFailure extends Error {
+    constructor(cause: unknown) {
+        super("Network request failed", { cause });
+        this.name = "NetworkFailure";
+    }
+}
+
+// Thrown instead of sending a mutation while earlier ones still wait in the offline queue
+class QueuedBehind extends Error {
+    constructor() {
+        super("Earlier mutations are waiting in the offline queue");
+        this.name = "QueuedBehind";
+    }
+}
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+    attempts: 3,
+    statuses: [408, 425, 429, 500, 502, 503, 504],
+    networkErrors: true,
+    methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+    delay: 300,
+    maxDelay: 30_000,
+    factor: 2,
+    jitter: true,
+    retryAfter: true,
+};
+
+// Normalizes the retry option into a complete policy
+const resolveRetry = (retry?: RetryOption): Required<RetryConfig> => {
+    if (retry === undefined || retry === false) {
+        return { ...DEFAULT_RETRY, attempts: 1 };
+    }
+    if (retry === true) return DEFAULT_RETRY;
+    if (typeof retry === "number") return { ...DEFAULT_RETRY, attempts: retry };
+    return { ...DEFAULT_RETRY, ...retry };
+};
+
+// Computes the exponential backoff delay before the given retry
+const backoffDelay = (policy: Required<RetryConfig>, retry: number): number => {
+    const delay = Math.min(
+        policy.maxDelay,
+        policy.delay * policy.factor ** (retry - 1),
+    );
+    return policy.jitter ? Math.random() * delay : delay;
+};
+
+const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && error.name === "AbortError";
+
+// Aborts the controller when the source signal aborts, returns a cleanup function
+const followSignal = (
+    controller: AbortController,
+    source?: AbortSignal | null,
+): (() => void) => {
+    if (!source || source === controller.signal) return () => {};
+    if (source.aborted) {
+        controller.abort(source.reason);
+        return () => {};
+    }
+
+    const onAbort = () => controller.abort(source.reason);
+    source.addEventListener("abort", onAbort, { once: true });
+    return () => source.removeEventListener("abort", onAbort);
+};
+
+// Reads the body of an error response according to its content type, as text
+// when it is binary or cannot be parsed
+const readErrorBody = async (
+    response: Response,
+    { deserializers, json }: FetchioConfig,
+): Promise<unknown> => {
+    const fallback = response.clone() as Response;
+    try {
+        const body = await readBody(response, deserializers, json);
+        return body instanceof Blob ? await fallback.text() : body;
+    } catch {
+        return fallback.text();
+    }
+};
+
+// Converts results returned by legacy response interceptors
+const toFetchResult = <T>(
+    result: FetchResult<T> | LegacyFetchResult<T>,
+    response: Response,
+): FetchResult<T> => {
+    if ("ok" in result) return result;
+
+    const meta = { status: response.status, headers: response.headers };
+    if (result.success) {
+        return { ...meta, ok: true, success: true, data: result.data as T };
+    }
+    return {
+        ...meta,
+        ok: false,
+        success: false,
+        data: result.data,
+        error: {
+            kind: "http",
+            status: response.status,
+            statusText: response.statusText,
+            body: result.data,
+        },
+    };
+};
+
+const failure = <T>(error: FetchError, attempts: number): FetchResult<T> => ({
+    ok: false,
+    success: false,
+    data: null,
+    error,
+    attempts,
+});
+
+// Settles like the promise, or rejects with the abort reason when the signal aborts first
+const raceSignal = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        if (signal.aborted) {
+            // The promise is left behind, its rejection is expected
+            promise.catch(() => {});
+            return reject(signal.reason);
+        }
+
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+
+// Numbers objects such as auth configs and interceptors, so keys can tell them apart
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+const identity = (value: unknown): number | null => {
+    if (
+        (typeof value !== "object" && typeof value !== "function") ||
+        value === null
+    ) {
+        return null;
+    }
+    let id = identities.get(value);
+    if (id === undefined) {
+        id = ++nextIdentity;
+        identities.set(value, id);
+    }
+    return id;
+};
+
+// Identifies a request by its method, URL and headers, and by what changes the
+// request as it is sent: its auth, its request interceptors and its cache mode
+const dedupeKey = (
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    auth: unknown,
+    interceptors: Interceptor[],
+    cache: string | undefined,
+): string => {
+    const normalized = Object.entries(headers)
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .sort(([a = ""], [b = ""]) => a.localeCompare(b));
+    return JSON.stringify([
+        method,
+        url,
+        normalized,
+        identity(auth),
+        interceptors.map(({ request }) => identity(request)),
+        cache ?? null,
+    ]);
+};
+
+// The attempt count and lifecycle context of a logical request
+type RequestState = {
+    attempts: number;
+    context: RequestContext;
+    /** The idempotency key header, the same for every attempt */
+    idempotency?: Record<string, string>;
+    /** The offline queue the mutation is queued in when it fails */
+    offline?: OfflineQueue;
+    /** Headers of this request only, such as those of an event stream connection */
+    headers?: Record<string, string>;
+};
+
+/**
+ * A fetch shared between concurrent identical requests
+ */
+type SharedRequest = {
+    response: Promise<Response>;
+    controller: AbortController;
+    state: RequestState;
+    callers: number;
+    settled: boolean;
+};
+
+// Returns the headers without Content-Type, letting fetch set it for the body
+const withoutContentType = (
+    headers: Record<string, string> = {},
+): Record<string, string> =>
+    Object.fromEntries(
+        Object.entries(headers).filter(
+            ([name]) => name.toLowerCase() !== "content-type",
+        ),
+    );
+
+const isStandardSchema = (value: unknown): value is StandardSchema =>
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    "~standard" in value;
+
+// Runs a validator, collecting its issues instead of throwing
+const validate = async <T>(
+    validator: Validator<T>,
+    value: unknown,
+): Promise<{ value: T } | { issues: ValidationIssue[] }> => {
+    if (isStandardSchema(validator)) {
+        const result = await validator["~standard"].validate(value);
+        if (!result.issues) return { value: result.value as T };
+
+        return {
+            issues: result.issues.map((issue) => ({
+                message: issue.message,
+                path: (issue.path ?? []).map((segment) =>
+                    typeof segment === "object" ? segment.key : segment,
+                ),
+            })),
+        };
+    }
+
+    try {
+        return { value: validator(value) };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { issues: [{ message, path: [] }] };
+    }
+};
+
+// Calls a lifecycle hook, ignoring its errors so observing requests never breaks them
+const callHook = async <C>(
+    hook: ((context: C) => void | Promise<void>) | undefined,
+    context: C,
+): Promise<void> => {
+    try {
+        await hook?.(context);
+    } catch {
+        // Hook errors are deliberately ignored
+    }
+};
+
+const isLimiter = (value: unknown): value is Limiter =>
+    typeof (value as Limiter | undefined)?.acquire === "function";
+
+const isOfflineQueue = (value: unknown): value is OfflineQueue =>
+    typeof (value as OfflineQueue | undefined)?.flush === "function";
+
+const isBreaker = (value: unknown): value is CircuitBreaker =>
+    typeof (value as CircuitBreaker | undefined)?.isFailure === "function";
+
+// Returns the store of an enabled cache, falling back to the instance store
+const cacheStore = (
+    option: CacheConfig | boolean | undefined,
+    fallback: () => CacheStore,
+): CacheStore | undefined => {
+    if (!option) return undefined;
+    return (option !== true && option.store) || fallback();
+};
+
+let interceptorId = 0;
+
+// Removes interceptors from a configuration so they are not registered twice
+const withoutInterceptors = ({
+    requestInterceptor: _request,
+    responseInterceptor: _response,
+    ...rest
+}: FetchioConfig): FetchioConfig => rest;
 
 /**
  * Creates a Fetchio instance with the specified base path and configuration
@@ -176,111 +1033,1077 @@ export type CreateFetchio = (
  * @param config - Configuration options
  * @returns Fetchio instance with methods
  */
-export const createFetchio: CreateFetchio = (basePath = "/", config = {}) => {
+export const createFetchio = ((
+    basePath = "/",
+    config: FetchioConfig = {},
+    api?: ApiDefinition,
+) => {
+    const fetchio = createInstance(basePath, config, () => []);
+    return api ? createClient(fetchio, api) : fetchio;
+}) as CreateFetchio;
+
+// Returns the validator of a spec, types declared with `typed` are not validated
+const specValidator = (spec?: TypeSpec): Validator<unknown> | undefined =>
+    spec && (isStandardSchema(spec) || typeof spec === "function")
+        ? (spec as Validator<unknown>)
+        : undefined;
+
+// Creates the method sending the request of a route
+const routeMethod =
+    (fetchio: Fetchio, route: RouteDefinition) =>
+    async (
+        {
+            query,
+            body,
+            ...pathParams
+        }: Record<string, unknown> & { query?: unknown; body?: unknown } = {},
+        options: FetchioConfig = {},
+    ): Promise<FetchResult<unknown>> => {
+        const querySchema = specValidator(route.query);
+        if (querySchema) {
+            const result = await validate(querySchema, query);
+            if ("issues" in result) {
+                return failure(
+                    {
+                        kind: "validation",
+                        source: "query",
+                        issues: result.issues,
+                    },
+                    0,
+                );
+            }
+            query = result.value;
+        }
+
+        const requestOptions = {
+            ...options,
+            pathParams: pathParams as Record<string, string | number>,
+            bodySchema: specValidator(route.body),
+        };
+        const path: string = route.path;
+        const builder =
+            route.method === "GET"
+                ? fetchio.get(path, requestOptions)
+                : route.method === "DELETE"
+                  ? fetchio.del(path, requestOptions)
+                  : fetchio[
+                        route.method.toLowerCase() as "post" | "put" | "patch"
+                    ](path, body, requestOptions);
+
+        if (query) builder.params(query as QueryParams);
+
+        if (!route.response) return builder.void();
+        const response = specValidator(route.response);
+        if (!response) return builder.json();
+        return builder.json(response);
+    };
+
+// Builds a client mirroring the groups and routes of a contract
+const createClient = <A extends ApiDefinition>(
+    fetchio: Fetchio,
+    api: A,
+): ApiClient<A> =>
+    Object.fromEntries(
+        Object.entries(api).map(([name, entry]) => [
+            name,
+            isRoute(entry)
+                ? routeMethod(fetchio, entry)
+                : createClient(fetchio, entry),
+        ]),
+    ) as unknown as ApiClient<A>;
+
+// Creates an instance whose interceptor chain follows the parent's chain
+const createInstance = (
+    basePath: string,
+    config: FetchioConfig,
+    parentInterceptors: () => Interceptor[],
+): Fetchio => {
+    const registered = new Map<number, Interceptor>();
+    // Shared with every instance created from this one through the config
+    const defaultCache = cacheStore(config.httpCache, createMemoryCache);
+    if (defaultCache) {
+        config = {
+            ...config,
+            httpCache: {
+                ...(typeof config.httpCache === "object" && config.httpCache),
+                store: defaultCache,
+            },
+        };
+    }
+    // Shared the same way, a sub-instance configuring limits gets its own limiter
+    if (config.limits && !isLimiter(config.limits)) {
+        config = { ...config, limits: createLimiter(config.limits) };
+    }
+    if (config.offline && !isOfflineQueue(config.offline)) {
+        config = {
+            ...config,
+            offline: createOfflineQueue({
+                fs: config.fs,
+                transport: config.transport,
+                ...config.offline,
+            }),
+        };
+    }
+    if (config.breaker && !isBreaker(config.breaker)) {
+        config = { ...config, breaker: createCircuitBreaker(config.breaker) };
+    }
+
+    const inflight = new Map<string, SharedRequest>();
+
+    const configured: Interceptor = {
+        request: config.requestInterceptor,
+        response: config.responseInterceptor,
+    };
+
+    // Resolved on every request so registrations apply to existing children
+    const interceptors = (): Interceptor[] => [
+        ...parentInterceptors(),
+        configured,
+        ...registered.values(),
+    ];
+
     // Creates a request builder with the given parameters
     const createRequest = (
         url: string,
         method: string,
         payload?: unknown,
-        options: FetchioConfig = {},
+        {
+            bodySchema,
+            pathParams,
+            ...options
+        }: RequestOptions<unknown> & {
+            pathParams?: Record<string, string | number>;
+        } = {},
     ): RequestBuilder => {
         let finalUrl = basePath + url;
-        let queryParams: Record<string, string> = {};
-        let requestConfig: FetchioConfig = { ...config, ...options, method };
+        let queryParams: QueryParams = {};
+        let requestConfig: FetchioConfig = {
+            ...withoutInterceptors(config),
+            ...options,
+            method,
+        };
 
-        if (payload) {
-            if (payload instanceof FormData) {
+        // Serializes the payload into the body, following the Content-Type header when one is set
+        const applyPayload = (): FetchError | undefined => {
+            const headers = requestConfig.headers ?? {};
+            const contentType = headerValue(headers, "Content-Type");
+            let serialized: ReturnType<typeof serializeBody>;
+            try {
+                serialized = serializeBody(
+                    payload,
+                    contentType,
+                    requestConfig.serializers,
+                    requestConfig.json,
+                );
+            } catch (cause) {
+                return { kind: "serialize", cause };
+            }
+            if (!serialized) return undefined;
+
+            requestConfig.body = serialized.body;
+            if (serialized.stream) {
+                requestConfig = {
+                    ...requestConfig,
+                    duplex: "half",
+                } as FetchioConfig;
+            }
+            if (serialized.multipart) {
+                requestConfig.headers = withoutContentType(headers);
+            } else if (serialized.contentType && !contentType) {
                 requestConfig.headers = {
-                    "Content-Type": "application/x-www-form-urlencoded",
-                    ...requestConfig.headers,
+                    ...headers,
+                    "Content-Type": serialized.contentType,
                 };
-                const formParams = new URLSearchParams();
-                for (const [key, value] of payload.entries()) {
-                    formParams.append(key, value);
+            }
+            return undefined;
+        };
+
+        let bodyFile: { path: string; contentType?: string } | undefined;
+        const attachments: {
+            field: string;
+            path: string;
+            filename?: string;
+        }[] = [];
+        let downloadName: string | undefined;
+        let downloadProgress: ProgressCallback | undefined;
+        let uploadProgress: ProgressCallback | undefined;
+        let priority = 0;
+        let explicitKey: string | undefined;
+
+        // Loads the files to send through the file system adapter into the body
+        const loadFiles = async (): Promise<FetchError | undefined> => {
+            const fs = requestConfig.fs;
+            if (!fs) return { kind: "missing-adapter", adapter: "fs" };
+
+            try {
+                if (bodyFile) {
+                    const blob = toBlob(await fs.loadFile(bodyFile.path));
+                    requestConfig.body = blob;
+                    requestConfig.headers = {
+                        ...withoutContentType(requestConfig.headers),
+                        "Content-Type":
+                            bodyFile.contentType ??
+                            (blob.type || "application/octet-stream"),
+                    };
+                    return undefined;
                 }
-                requestConfig.body = formParams.toString();
-            } else if (typeof payload === "object") {
-                requestConfig.headers = {
-                    ...requestConfig.headers,
-                    ...payload,
-                };
-                requestConfig.body = JSON.stringify(payload);
-            } else if (typeof payload === "string") {
-                requestConfig.headers = {
-                    "Content-Type": "text/plain",
-                    ...requestConfig.headers,
-                };
-                requestConfig.body = payload;
+
+                const form = new FormData();
+                if (payload instanceof FormData) {
+                    payload.forEach((value, key) => form.append(key, value));
+                } else if (payload && typeof payload === "object") {
+                    for (const [key, value] of Object.entries(payload)) {
+                        form.append(
+                            key,
+                            typeof value === "string"
+                                ? value
+                                : JSON.stringify(value),
+                        );
+                    }
+                }
+                for (const { field, path, filename } of attachments) {
+                    form.append(
+                        field,
+                        toBlob(await fs.loadFile(path)),
+                        filename ?? path.split(/[\\/]/).pop(),
+                    );
+                }
+
+                requestConfig.body = form;
+                requestConfig.headers = withoutContentType(
+                    requestConfig.headers,
+                );
+                return undefined;
+            } catch (cause) {
+                return { kind: "fs", cause };
             }
-        }
+        };
+
+        // Saves a downloaded response through the file system adapter
+        const saveDownload = async (response: Response): Promise<unknown> => {
+            const fs = requestConfig.fs as FileSystemAdapter;
+            const filename = downloadName ?? downloadFilename(response);
 
+            if (response.body && fs.saveStream) {
+                return fs.saveStream(response.body, filename);
+            }
+            return fs.saveFile(await response.blob(), filename);
+        };
+
+        const chain = (): Interceptor[] => [
+            ...interceptors(),
+            {
+                request: options.requestInterceptor,
+                response: options.responseInterceptor,
+            },
+        ];
+
+        // Runs the response interceptors, the last one handing over to parseResponse
         const processResponse = async <T>(
             response: Response,
-            type: "json" | "text" | "arrayBuffer" | "void" | "blob",
+            type: ResponseType,
+        ): Promise<FetchResult<T>> => {
+            const handlers = chain().flatMap(({ response }) =>
+                typeof response === "function" ? [response] : [],
+            );
+
+            const dispatch = async (
+                index: number,
+                current: Response,
+            ): Promise<FetchResult<unknown>> => {
+                const handler = handlers[index];
+                if (!handler) return parseResponse(current, type);
+
+                const result = await handler(current, (next = current) =>
+                    dispatch(index + 1, next),
+                );
+                return toFetchResult(result, current);
+            };
+
+            return dispatch(0, response) as Promise<FetchResult<T>>;
+        };
+
+        const parseResponse = async <T>(
+            response: Response,
+            type: ResponseType,
         ): Promise<FetchResult<T>> => {
+            const meta = { status: response.status, headers: response.headers };
+
+            if (!response.ok) {
+                const body = await readErrorBody(response, requestConfig);
+                return {
+                    ...meta,
+                    ok: false,
+                    success: false,
+                    data: body as T,
+                    error: {
+                        kind: "http",
+                        status: response.status,
+                        statusText: response.statusText,
+                        body,
+                    },
+                };
+            }
+
+            let data: T | null = null;
+            try {
+                if (type === "auto") {
+                    data = (await readBody(
+                        response,
+                        requestConfig.deserializers,
+                        requestConfig.json,
+                    )) as T;
+                } else if (type === "json") {
+                    // Empty bodies, such as those of 204 responses, are null
+                    const text = await response.text();
+                    data = text
+                        ? (parseJson(text, requestConfig.json) as T)
+                        : null;
+                } else if (type === "text") {
+                    data = (await response.text()) as unknown as T;
+                } else if (type === "arrayBuffer") {
+                    data = (await response.arrayBuffer()) as unknown as T;
+                } else if (type === "blob") {
+                    data = (await response.blob()) as unknown as T;
+                } else if (type === "file") {
+                    data = (await saveDownload(response)) as T;
+                } else if (type === "stream") {
+                    data = response.body as T;
+                }
+            } catch (cause) {
+                if (isAbortError(cause)) throw cause;
+
+                return {
+                    ...meta,
+                    ok: false,
+                    success: false,
+                    data: null,
+                    error:
+                        type === "file"
+                            ? { kind: "fs", cause }
+                            : { kind: "parse", cause },
+                };
+            }
+
+            return { ...meta, ok: true, success: true, data: data as T };
+        };
+
+        const buildUrl = (): string =>
+            withQuery(
+                fillPath(finalUrl, pathParams),
+                queryParams,
+                requestConfig.arrayFormat,
+            );
+
+        const sendRequest = async (
+            controller: AbortController,
+            { attempts, context, idempotency, offline, headers }: RequestState,
+            credentials: Record<string, string> = {},
+        ): Promise<Response> => {
+            let requestUrl = buildUrl();
+            let requestOptions: FetchioConfig = {
+                ...requestConfig,
+                headers: {
+                    ...credentials,
+                    ...idempotency,
+                    ...requestConfig.headers,
+                    ...headers,
+                },
+            };
+            // The cache mode is handled by the HTTP cache when there is one
+            if (requestOptions.httpCache) requestOptions.cache = undefined;
+
+            for (const { request } of chain()) {
+                if (typeof request !== "function") continue;
+
+                const intercepted = await request(requestUrl, requestOptions);
+                requestUrl = intercepted.url;
+                requestOptions = intercepted.options;
+            }
+
+            // Interceptors may rebuild the options, so the internal signal
+            // is applied last and any signal they set is linked to it. The
+            // request's own signal is already linked to the controller.
+            const unfollow =
+                requestOptions.signal !== requestConfig.signal
+                    ? followSignal(controller, requestOptions.signal)
+                    : () => {};
+            // Slots of the limiter are held until the response headers arrive
+            let release = () => {};
+            let record: ((failed?: boolean) => void) | undefined;
+            let upload: UploadBody | undefined;
+            try {
+                // A fresh stream is built for every attempt, as streams can only be read once
+                if (uploadProgress && requestOptions.body != null) {
+                    upload = await withUploadProgress(
+                        requestOptions.body,
+                        uploadProgress,
+                    );
+                    const headers = { ...requestOptions.headers };
+                    if (
+                        upload.contentType &&
+                        headerValue(headers, "Content-Type") === undefined
+                    ) {
+                        headers["Content-Type"] = upload.contentType;
+                    }
+                    // Streams of a known length are not sent chunked
+                    if (
+                        upload.stream &&
+                        upload.length !== undefined &&
+                        headerValue(headers, "Content-Length") === undefined
+                    ) {
+                        headers["Content-Length"] = String(upload.length);
+                    }
+
+                    requestOptions = {
+                        ...requestOptions,
+                        body: upload.body,
+                        headers,
+                        ...(upload.stream && { duplex: "half" }),
+                    } as FetchioConfig;
+                }
+
+                const {
+                    transport = fetch,
+                    limits,
+                    breaker,
+                    cookies,
+                    recorder,
+                } = requestOptions;
+                const limiter = isLimiter(limits) ? limits : undefined;
+                const circuit = isBreaker(breaker) ? breaker : undefined;
+
+                // With a jar, redirects are followed by sendWithCookies to
+                // store the cookies set by every response
+                const follow =
+                    !!cookies &&
+                    (requestOptions.redirect ?? "follow") === "follow";
+                const request = new Request(requestUrl, {
+                    ...requestOptions,
+                    ...(follow && { redirect: "manual" }),
+                    signal: controller.signal,
+                });
+                const givenCookie = request.headers.get("Cookie");
+                const cookie =
+                    cookies && cookieHeader(cookies, request.url, givenCookie);
+                if (cookie) request.headers.set("Cookie", cookie);
+
+                // Sends the request, with the conditional headers revalidating a cached entry
+                const send = async (conditions: Record<string, string>) => {
+                    for (const [name, value] of Object.entries(conditions)) {
+                        request.headers.set(name, value);
+                    }
+
+                    // Mutations still waiting after the flush must reach the server
+                    // first, so this one is queued behind them instead of being sent
+                    if (
+                        offline &&
+                        !(requestConfig.body instanceof ReadableStream) &&
+                        (await offline.pending()).length
+                    ) {
+                        context.request = request;
+                        throw new QueuedBehind();
+                    }
+
+                    // Open circuits fail before the request waits for the limiter
+                    record = circuit?.acquire(
+                        circuitKey(circuit, requestUrl, basePath),
+                    );
+                    if (limiter) {
+                        release = await limiter.acquire(
+                            priority,
+                            controller.signal,
+                        );
+                    }
+
+                    context.attempt = attempts;
+                    context.url = request.url;
+                    context.request = request;
+                    await callHook(requestConfig.onRequest, context);
+
+                    const exchange: Transport = (sent) =>
+                        recorder
+                            ? recorder.record(sent, transport)
+                            : transport(sent);
+                    // Transports ignoring the signal cannot delay aborts and timeouts
+                    const transmit = (sent: Request) =>
+                        raceSignal(
+                            cookies
+                                ? sendWithCookies(
+                                      cookies,
+                                      sent,
+                                      givenCookie,
+                                      exchange,
+                                      follow,
+                                  )
+                                : exchange(sent),
+                            controller.signal,
+                        );
+                    let response: Response;
+                    try {
+                        response = await transmit(request);
+                    } catch (error) {
+                        // A rejected streamed body is sent again in one piece
+                        const fallback = upload?.fallback?.();
+                        if (!fallback || controller.signal.aborted) throw error;
+                        upload = fallback;
+                        const retried = new Request(request, {
+                            body: fallback.body,
+                        });
+                        context.request = retried;
+                        response = await transmit(retried);
+                    }
+                    upload?.complete();
+                    context.status = response.status;
+                    context.timings.headers =
+                        Date.now() - context.timings.start;
+                    await callHook(requestConfig.onResponse, context);
+
+                    limiter?.update(response);
+                    record?.(circuit?.isFailure(response));
+                    return response;
+                };
+
+                // The cache sees the request as it is sent, with its credentials and cookies
+                const store =
+                    method === "GET"
+                        ? cacheStore(
+                              requestConfig.httpCache,
+                              () => defaultCache ?? createMemoryCache(),
+                          )
+                        : undefined;
+                return store
+                    ? await cachedFetch(
+                          store,
+                          request,
+                          requestConfig.cache ?? "default",
+                          send,
+                          typeof requestConfig.httpCache === "object"
+                              ? requestConfig.httpCache.maxEntrySize
+                              : undefined,
+                      )
+                    : await send({});
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    // Timeouts are failures of the server, other aborts are not
+                    const { reason } = controller.signal;
+                    if (
+                        reason instanceof DOMException &&
+                        reason.name === "TimeoutError"
+                    ) {
+                        record?.(true);
+                    }
+                    throw error;
+                }
+                if (
+                    error instanceof QueueFull ||
+                    error instanceof CircuitOpen ||
+                    error instanceof QueuedBehind
+                ) {
+                    throw error;
+                }
+                record?.(true);
+                throw new NetworkFailure(error);
+            } finally {
+                record?.();
+                release();
+                unfollow();
+            }
+        };
+
+        // Shares the request with identical concurrent ones when deduplication is on.
+        // The shared fetch has its own controller, aborted once every caller left.
+        const dedupeRequest = async (
+            controller: AbortController,
+            state: RequestState,
+        ): Promise<Response> => {
             if (
-                requestConfig.responseInterceptor &&
-                typeof requestConfig.responseInterceptor === "function"
+                !requestConfig.dedupe ||
+                (method !== "GET" && method !== "HEAD")
             ) {
-                const middlewareResult =
-                    await requestConfig.responseInterceptor(response);
-                return middlewareResult as FetchResult<T>;
+                return executeRequest(controller, state);
             }
 
-            const isSuccess = response.ok;
-            let data: T | null = null;
+            const key = dedupeKey(
+                method,
+                buildUrl(),
+                { ...requestConfig.headers, ...state.headers },
+                requestConfig.auth,
+                chain(),
+                requestConfig.cache,
+            );
 
-            if (type === "json") {
-                data = (await response.json()) as T;
-            } else if (type === "text") {
-                data = (await response.text()) as unknown as T;
-            } else if (type === "arrayBuffer") {
-                data = (await response.arrayBuffer()) as unknown as T;
-            } else if (type === "blob") {
-                data = (await response.blob()) as unknown as T;
+            let shared = inflight.get(key);
+            if (!shared) {
+                const sharedController = new AbortController();
+                const sharedState: RequestState = {
+                    attempts: 0,
+                    context: state.context,
+                    idempotency: state.idempotency,
+                    headers: state.headers,
+                };
+                const request: SharedRequest = {
+                    controller: sharedController,
+                    state: sharedState,
+                    callers: 0,
+                    settled: false,
+                    response: executeRequest(
+                        sharedController,
+                        sharedState,
+                    ).finally(() => {
+                        request.settled = true;
+                        inflight.delete(key);
+                    }),
+                };
+
+                shared = request;
+                inflight.set(key, shared);
             }
 
-            return { success: isSuccess, data };
+            shared.callers++;
+            try {
+                const response = await raceSignal(
+                    shared.response,
+                    controller.signal,
+                );
+                state.attempts = shared.state.attempts;
+                return response.clone() as Response;
+            } finally {
+                shared.callers--;
+                if (shared.callers === 0 && !shared.settled) {
+                    shared.controller.abort(controller.signal.reason);
+                }
+            }
+        };
+
+        // Sends the request with its credentials, replaying it once with a
+        // refreshed token when they are rejected
+        const sendAuthorized = async (
+            controller: AbortController,
+            state: RequestState,
+        ): Promise<Response> => {
+            const { auth } = requestConfig;
+            if (!auth) return sendRequest(controller, state);
+
+            const { token, refreshes } = await currentToken(auth);
+            const response = await sendRequest(
+                controller,
+                state,
+                authHeaders(auth, token),
+            );
+            if (response.status !== 401) return response;
+
+            const refreshed = await refreshAuth(auth, refreshes);
+            if (!refreshed) return response;
+
+            await response.body?.cancel();
+            return sendRequest(controller, state, authHeaders(auth, refreshed));
         };
 
-        const buildUrl = (): string => {
-            if (Object.keys(queryParams).length > 0) {
-                let urlWithParams = finalUrl + "?";
-                Object.entries(queryParams).forEach(([key, value]) => {
-                    urlWithParams += `${key}=${value}&`;
+        // Sends the request, retrying it according to the retry policy
+        const executeRequest = async (
+            controller: AbortController,
+            state: RequestState,
+        ): Promise<Response> => {
+            const policy = resolveRetry(requestConfig.retry);
+            // Requests with an idempotency key are retried like idempotent methods,
+            // but streamed bodies can only be sent once
+            const retryable =
+                (policy.methods.includes(method) || !!state.idempotency) &&
+                !(requestConfig.body instanceof ReadableStream);
+
+            for (let attempt = 1; ; attempt++) {
+                const canRetry = retryable && attempt < policy.attempts;
+                state.attempts = attempt;
+
+                let response: Response;
+                try {
+                    response = await sendAuthorized(controller, state);
+                } catch (error) {
+                    if (!canRetry || !(error instanceof NetworkFailure)) {
+                        throw error;
+                    }
+
+                    const retryError =
+                        typeof policy.networkErrors === "function"
+                            ? policy.networkErrors(error.cause)
+                            : policy.networkErrors;
+                    if (!retryError) throw error;
+
+                    const delay = backoffDelay(policy, attempt);
+                    await callHook(requestConfig.onRetry, {
+                        ...state.context,
+                        delay,
+                    });
+                    await sleep(delay, controller.signal);
+                    continue;
+                }
+
+                if (!canRetry || !policy.statuses.includes(response.status)) {
+                    return response;
+                }
+
+                const retryAfter = policy.retryAfter
+                    ? parseRetryAfter(response.headers.get("Retry-After"))
+                    : null;
+
+                await response.body?.cancel();
+                const delay =
+                    retryAfter !== null
+                        ? Math.min(retryAfter, policy.maxDelay)
+                        : backoffDelay(policy, attempt);
+                await callHook(requestConfig.onRetry, {
+                    ...state.context,
+                    delay,
                 });
-                return urlWithParams.slice(0, -1);
+                await sleep(delay, controller.signal);
             }
+        };
 
-            return finalUrl;
+        // Validates the body and loads files before the request is sent
+        const prepare = async (
+            type: ResponseType,
+        ): Promise<FetchError | undefined> => {
+            if (bodySchema) {
+                const body = await validate(bodySchema, payload);
+                if ("issues" in body) {
+                    return {
+                        kind: "validation",
+                        source: "body",
+                        issues: body.issues,
+                    };
+                }
+                payload = body.value;
+            }
+
+            if (type === "file" && !requestConfig.fs) {
+                return { kind: "missing-adapter", adapter: "fs" };
+            }
+
+            if (bodyFile || attachments.length) return loadFiles();
+            return applyPayload();
         };
 
-        const executeRequest = async (): Promise<Response> => {
-            let requestUrl = buildUrl();
-            let requestOptions = requestConfig;
+        // Returns the idempotency key header of a logical request, when one is sent
+        const idempotencyHeader = (): Record<string, string> | undefined => {
+            const option = requestConfig.idempotency;
+            const idempotency = resolveIdempotency(option || !!explicitKey);
+            if (!idempotency) return undefined;
+            if (explicitKey) return { [idempotency.header]: explicitKey };
+            if (!option || !idempotency.methods.includes(method)) {
+                return undefined;
+            }
 
-            if (
-                requestOptions.requestInterceptor &&
-                typeof requestOptions.requestInterceptor === "function"
-            ) {
-                const intercepted = await requestOptions.requestInterceptor(
-                    requestUrl,
-                    requestOptions,
+            // Only text bodies can be compared with previous requests
+            const { body } = requestConfig;
+            const fingerprint =
+                body === undefined || body === null || typeof body === "string"
+                    ? `${method} ${buildUrl()} ${body ?? ""}`
+                    : undefined;
+            return {
+                [idempotency.header]: idempotencyKey(option, fingerprint),
+            };
+        };
+
+        // Starts the controller, timeout and attempt count of a single logical request,
+        // which may have a signal and headers of its own
+        const startSession = ({
+            signal,
+            headers,
+        }: { signal?: AbortSignal; headers?: Record<string, string> } = {}) => {
+            const controller = new AbortController();
+            const state: RequestState = {
+                idempotency: idempotencyHeader(),
+                headers,
+                attempts: 0,
+                context: {
+                    id: crypto.randomUUID(),
+                    method,
+                    url: buildUrl(),
+                    attempt: 0,
+                    timings: { start: Date.now() },
+                },
+            };
+            const { timeout } = requestConfig;
+            const unfollowRequest = followSignal(
+                controller,
+                requestConfig.signal,
+            );
+            const unfollowSession = followSignal(controller, signal);
+
+            let timedOut = false;
+            const timer =
+                timeout !== undefined
+                    ? setTimeout(() => {
+                          timedOut = true;
+                          controller.abort(
+                              new DOMException(
+                                  `Request timed out after ${timeout}ms`,
+                                  "TimeoutError",
+                              ),
+                          );
+                      }, timeout)
+                    : undefined;
+
+            return {
+                controller,
+                state,
+
+                stopTimeout: () => clearTimeout(timer),
+
+                close: () => {
+                    clearTimeout(timer);
+                    unfollowRequest();
+                    unfollowSession();
+                },
+
+                // Describes errors caused by aborts and the network, other errors are unexpected
+                failure: (error: unknown): FetchError | undefined => {
+                    if (controller.signal.aborted) {
+                        return timedOut
+                            ? { kind: "timeout", timeout: timeout as number }
+                            : {
+                                  kind: "abort",
+                                  reason: controller.signal.reason,
+                              };
+                    }
+                    if (error instanceof NetworkFailure) {
+                        return { kind: "network", cause: error.cause };
+                    }
+                    // Queued like a mutation failing on the network
+                    if (error instanceof QueuedBehind) {
+                        return { kind: "network", cause: error };
+                    }
+                    if (error instanceof QueueFull) {
+                        return { kind: "queue-full", maxQueue: error.maxQueue };
+                    }
+                    if (error instanceof CircuitOpen) {
+                        return {
+                            kind: "circuit-open",
+                            key: error.key,
+                            retryAt: error.retryAt,
+                        };
+                    }
+                    return undefined;
+                },
+            };
+        };
+
+        // Sends the request and processes the response within a session
+        const run = async <T>(
+            { controller, state }: ReturnType<typeof startSession>,
+            type: ResponseType,
+            validator?: Validator<T>,
+        ): Promise<FetchResult<T>> => {
+            const response = await dedupeRequest(controller, state);
+            return readResponse(
+                downloadProgress
+                    ? withDownloadProgress(response, downloadProgress)
+                    : response,
+                type,
+                state.attempts,
+                validator,
+            );
+        };
+
+        // Processes a response and validates its data
+        const readResponse = async <T>(
+            response: Response,
+            type: ResponseType,
+            attempts: number,
+            validator?: Validator<T>,
+        ): Promise<FetchResult<T>> => {
+            const result = await processResponse<T>(response, type);
+            if (!result.ok || !validator) return { ...result, attempts };
+
+            const checked = await validate(validator, result.data);
+            if ("issues" in checked) {
+                return {
+                    ok: false,
+                    success: false,
+                    data: null,
+                    status: result.status,
+                    headers: result.headers,
+                    attempts,
+                    error: {
+                        kind: "validation",
+                        source: "response",
+                        issues: checked.issues,
+                    },
+                };
+            }
+            return { ...result, data: checked.value, attempts };
+        };
+
+        // Returns the offline queue when this request is a mutation it handles
+        const offlineQueue = (): OfflineQueue | undefined => {
+            const { offline } = requestConfig;
+            return isOfflineQueue(offline) && offline.methods.includes(method)
+                ? offline
+                : undefined;
+        };
+
+        // Queues a mutation that failed on the network or waits behind earlier ones,
+        // its result settles once it was replayed
+        const enqueue = async <T>(
+            offline: OfflineQueue,
+            { context, attempts }: RequestState,
+            result: FetchFailure<T>,
+            type: ResponseType,
+            validator?: Validator<T>,
+        ): Promise<FetchResult<T>> => {
+            const { error } = result;
+            const mutation =
+                error.kind === "network" && context.request
+                    ? await captureMutation(context.request, requestConfig.body)
+                    : undefined;
+            if (error.kind !== "network" || !mutation) return result;
+
+            const queued = await offline.enqueue(mutation);
+            return {
+                ...result,
+                error: {
+                    kind: "queued",
+                    id: queued.mutation.id,
+                    cause: error.cause,
+                },
+                queued: queued.response.then(
+                    (response) =>
+                        readResponse(response, type, attempts, validator),
+                    (reason: unknown) =>
+                        failure<T>(
+                            reason instanceof ReplayFailed
+                                ? { kind: "replay", cause: reason.cause }
+                                : { kind: "abort", reason },
+                            attempts,
+                        ),
+                ),
+            };
+        };
+
+        const send = async <T>(
+            type: ResponseType,
+            validator?: Validator<T>,
+        ): Promise<FetchResult<T>> => {
+            const prepareError = await prepare(type);
+            if (prepareError) return failure(prepareError, 0);
+
+            const offline = offlineQueue();
+            const session = startSession();
+            session.state.offline = offline;
+            let result: FetchResult<T>;
+            try {
+                // Mutations queued earlier are sent first, keeping their order.
+                // The timeout and signal of the request bound the wait.
+                if (offline) {
+                    await raceSignal(
+                        offline.flush(),
+                        session.controller.signal,
+                    );
+                }
+                result = await run(session, type, validator);
+            } catch (error) {
+                const reason = session.failure(error);
+                if (!reason) throw error;
+                result = failure(reason, session.state.attempts);
+            } finally {
+                session.close();
+            }
+            if (offline && !result.ok) {
+                result = await enqueue(
+                    offline,
+                    session.state,
+                    result,
+                    type,
+                    validator,
                 );
-                requestUrl = intercepted.url;
-                requestOptions = intercepted.options;
             }
+            return complete(session.state, result);
+        };
 
-            return fetch(requestUrl, requestOptions);
+        // Reports the outcome of a request to the lifecycle hooks
+        const complete = async <T>(
+            { context }: RequestState,
+            result: FetchResult<T>,
+        ): Promise<FetchResult<T>> => {
+            context.timings.body = Date.now() - context.timings.start;
+            if (!result.ok) {
+                await callHook(requestConfig.onError, {
+                    ...context,
+                    error: result.error,
+                });
+            }
+            await callHook(requestConfig.onComplete, {
+                ...context,
+                result: result as FetchResult<unknown>,
+            });
+            return result;
         };
 
+        // Streams the response body. The timeout applies until the response arrives,
+        // and leaving the iteration early aborts the request.
+        async function* iterate(
+            onOpen?: (status: number) => void,
+            connection?: Parameters<typeof startSession>[0],
+        ): AsyncGenerator<Uint8Array> {
+            const prepareError = await prepare("stream");
+            if (prepareError) throw new FetchioError(prepareError);
+
+            const session = startSession(connection);
+            let outcome: FetchResult<unknown> | undefined;
+            try {
+                let result: FetchResult<ReadableStream<Uint8Array> | null>;
+                try {
+                    result = await run(session, "stream");
+                } catch (error) {
+                    const reason = session.failure(error);
+                    if (!reason) throw error;
+                    outcome = failure(reason, session.state.attempts);
+                    throw new FetchioError(reason);
+                }
+                outcome = result;
+                session.stopTimeout();
+
+                if (!result.ok) {
+                    throw new FetchioError(result.error, result.status);
+                }
+                onOpen?.(result.status);
+                if (!result.data) return;
+
+                const reader = result.data.getReader();
+                try {
+                    while (true) {
+                        const { done, value } = await reader.read();
+                        if (done) return;
+                        yield value;
+                    }
+                } catch (cause) {
+                    const error = session.failure(cause) ?? {
+                        kind: "network",
+                        cause,
+                    };
+                    outcome = {
+                        ...failure(error, session.state.attempts),
+                        status: result.status,
+                    };
+                    throw new FetchioError(error, result.status);
+                } finally {
+                    reader.cancel().catch(() => {});
+                }
+            } finally {
+                session.controller.abort();
+                session.close();
+                if (outcome) await complete(session.state, outcome);
+            }
+        }
+
         const builder: RequestBuilder = {
-            param: (key: string, value: string) => {
+            param: (key: string, value: QueryValue | readonly QueryValue[]) => {
                 queryParams[key] = value;
                 return builder;
             },
 
-            params: (params: Record<string, string>) => {
+            params: (params: QueryParams) => {
                 queryParams = { ...queryParams, ...params };
                 return builder;
             },
@@ -306,41 +2129,206 @@ export const createFetchio: CreateFetchio = (basePath = "/", config = {}) => {
                 return builder;
             },
 
-            json: async <T>() => {
-                const response = await executeRequest();
-                return processResponse<T>(response, "json");
+            retry: (retry: RetryOption) => {
+                requestConfig.retry = retry;
+                return builder;
+            },
+
+            timeout: (ms: number) => {
+                requestConfig.timeout = ms;
+                return builder;
+            },
+
+            signal: (signal: AbortSignal) => {
+                requestConfig.signal = signal;
+                return builder;
             },
 
-            string: async () => {
-                const response = await executeRequest();
-                return processResponse<string>(response, "text");
+            cache: (mode: CacheMode) => {
+                requestConfig.cache = mode;
+                return builder;
             },
 
-            bytes: async () => {
-                const response = await executeRequest();
-                return processResponse<ArrayBuffer>(response, "arrayBuffer");
+            auth: (auth: AuthConfig | false) => {
+                requestConfig.auth = auth;
+                return builder;
             },
 
-            void: async () => {
-                const response = await executeRequest();
-                return processResponse<void>(response, "void");
+            priority: (value: number) => {
+                priority = value;
+                return builder;
             },
 
-            blob: async () => {
-                const response = await executeRequest();
-                return processResponse<Blob>(response, "blob");
+            idempotency: (
+                idempotency: IdempotencyConfig | boolean | string,
+            ) => {
+                if (typeof idempotency === "string") {
+                    explicitKey = idempotency;
+                } else {
+                    explicitKey = undefined;
+                    requestConfig.idempotency = idempotency;
+                }
+                return builder;
             },
+
+            file: (path: string, contentType?: string) => {
+                bodyFile = { path, contentType };
+                return builder;
+            },
+
+            attach: (field: string, path: string, filename?: string) => {
+                attachments.push({ field, path, filename });
+                return builder;
+            },
+
+            onDownloadProgress: (callback: ProgressCallback) => {
+                downloadProgress = callback;
+                return builder;
+            },
+
+            onUploadProgress: (callback: ProgressCallback) => {
+                uploadProgress = callback;
+                return builder;
+            },
+
+            json: ((validator?: Validator<unknown>) =>
+                send("json", validator)) as ResponseBuilder["json"],
+
+            auto: <T>() => send<T>("auto"),
+
+            string: () => send<string>("text"),
+
+            bytes: () => send<ArrayBuffer>("arrayBuffer"),
+
+            void: () => send<void>("void"),
+
+            blob: () => send<Blob>("blob"),
+
+            stream: () => iterate(),
+
+            lines: () => readLines(iterate()),
+
+            ndjson: <T>() =>
+                parseNdjson<T>(
+                    readLines(iterate()),
+                    (cause) => new FetchioError({ kind: "parse", cause }),
+                ),
+
+            sse: <T>({ parse, ...options }: EventStreamOptions<T> = {}) => {
+                // Closing aborts the connection through its signal. The signal and
+                // headers are those of the connections only, the builder is left as it is.
+                const closer = new AbortController();
+                const accept: Record<string, string> =
+                    headerValue(requestConfig.headers, "Accept") === undefined
+                        ? { Accept: "text/event-stream" }
+                        : {};
+
+                return createEventStream<T>(
+                    {
+                        connect: (lastEventId) => {
+                            const headers =
+                                lastEventId === undefined
+                                    ? accept
+                                    : {
+                                          ...accept,
+                                          "Last-Event-ID": lastEventId,
+                                      };
+
+                            let status = 0;
+                            return {
+                                lines: readLines(
+                                    iterate((opened) => (status = opened), {
+                                        signal: closer.signal,
+                                        headers,
+                                    }),
+                                ),
+                                // 204 No Content tells the client to stop reconnecting
+                                final: () => status === 204,
+                            };
+                        },
+                        abort: () => closer.abort(),
+                        canReconnect: (error) =>
+                            error instanceof FetchioError &&
+                            error.error.kind === "network",
+                    },
+                    {
+                        ...options,
+                        parse: parse
+                            ? (data) => {
+                                  try {
+                                      return parse(data);
+                                  } catch (cause) {
+                                      throw new FetchioError({
+                                          kind: "parse",
+                                          cause,
+                                      });
+                                  }
+                              }
+                            : undefined,
+                    },
+                );
+            },
+
+            download: <R>(filename?: string) => {
+                downloadName = filename;
+                return send<R>("file");
+            },
+
+            paginate: <T>(
+                strategy: PaginationStrategy<T>,
+                options?: PaginateOptions,
+            ) =>
+                paginate<T>(
+                    async (page) => {
+                        // Pages are sent with this request's state, restored afterwards
+                        const saved = { finalUrl, queryParams };
+                        if (page?.url) {
+                            finalUrl = page.url;
+                            queryParams = {};
+                        }
+                        queryParams = { ...queryParams, ...page?.params };
+                        const url = buildUrl();
+
+                        try {
+                            const result = await send<unknown>("json");
+                            if (!result.ok) {
+                                throw new FetchioError(
+                                    result.error,
+                                    result.status,
+                                );
+                            }
+                            const { data, headers, status } = result;
+                            return { data, headers, status, url };
+                        } finally {
+                            ({ finalUrl, queryParams } = saved);
+                        }
+                    },
+                    strategy,
+                    options,
+                ),
         };
 
         return builder;
     };
 
     const fetchio: Fetchio = {
+        use: (interceptor: Interceptor): number => {
+            const id = ++interceptorId;
+            registered.set(id, interceptor);
+            return id;
+        },
+
+        eject: (id: number) => {
+            registered.delete(id);
+        },
+
         path: (append: string): Fetchio => {
             const newPath = basePath.concat(append);
-            return createFetchio(newPath, {
-                ...config,
-            });
+            return createInstance(
+                newPath,
+                withoutInterceptors(config),
+                interceptors,
+            );
         },
 
         get: (url: string = "", options?: FetchioConfig): RequestBuilder => {
@@ -355,7 +2343,7 @@ export const createFetchio: CreateFetchio = (basePath = "/", config = {}) => {
         post: <T>(
             url: string = "",
             data?: T,
-            options?: FetchioConfig,
+            options?: RequestOptions<T>,
         ): RequestBuilder => {
             return createRequest(url, "POST", data, options);
         },
@@ -363,7 +2351,7 @@ export const createFetchio: CreateFetchio = (basePath = "/", config = {}) => {
         put: <T>(
             url: string = "",
             data?: T,
-            options?: FetchioConfig,
+            options?: RequestOptions<T>,
         ): RequestBuilder => {
             return createRequest(url, "PUT", data, options);
         },
@@ -371,7 +2359,7 @@ export const createFetchio: CreateFetchio = (basePath = "/", config = {}) => {
         patch: <T>(
             url: string = "",
             data?: T,
-            options?: FetchioConfig,
+            options?: RequestOptions<T>,
         ): RequestBuilder => {
             return createRequest(url, "PATCH", data, options);
         },
@@ -385,11 +2373,19 @@ export const createFetchio: CreateFetchio = (basePath = "/", config = {}) => {
             );
         },
 
+        flush: async () => {
+            if (isOfflineQueue(config.offline)) await config.offline.flush();
+        },
+
         sub: (subPath: string, pathConfig: FetchioConfig = {}) =>
-            createFetchio(basePath.concat(subPath), {
-                ...config,
-                ...pathConfig,
-            }),
+            createInstance(
+                basePath.concat(subPath),
+                {
+                    ...withoutInterceptors(config),
+                    ...pathConfig,
+                },
+                interceptors,
+            ),
     };
 
     return fetchio;
@@ -0,0 +1,168 @@
+import { parseRetryAfter } from "./util";
+
+/**
+ * Limits applied to the requests sent by an instance
+ */
+export type LimitsConfig = {
+    /** Maximum number of requests in flight */
+    concurrency?: number;
+    /** Token bucket allowing bursts of `requests` and refilling them over `interval` milliseconds */
+    rate?: { requests: number; interval: number };
+    /** Maximum number of waiting requests, further requests fail with a `queue-full` error */
+    maxQueue?: number;
+    /** Pauses sending as asked by `RateLimit-Remaining`/`RateLimit-Reset` and `Retry-After` headers, true by default */
+    adaptive?: boolean;
+};
+
+/**
+ * Queues requests until the limits allow sending them
+ */
+export interface Limiter {
+    /**
+     * Waits for a slot, requests with a higher priority going first
+     * @param priority - The priority of the request
+     * @param signal - Removes the request from the queue when aborted
+     * @returns A function releasing the slot
+     */
+    acquire(priority: number, signal?: AbortSignal): Promise<() => void>;
+
+    /**
+     * Adapts to the rate limit headers of a response
+     * @param response - The response received
+     */
+    update(response: Response): void;
+}
+
+/**
+ * Error rejecting a request when the queue of the limiter is full
+ */
+export class QueueFull extends Error {
+    constructor(readonly maxQueue: number) {
+        super(`The request queue is full (${maxQueue} requests)`);
+        this.name = "QueueFull";
+    }
+}
+
+type Waiting = {
+    priority: number;
+    start: () => void;
+    cancel: (reason: unknown) => void;
+};
+
+/**
+ * Creates a limiter. Passing it to several instances makes them share its
+ * concurrency slots and token bucket.
+ * @param config - The limits
+ */
+export const createLimiter = ({
+    concurrency = Infinity,
+    rate,
+    maxQueue = Infinity,
+    adaptive = true,
+}: LimitsConfig = {}): Limiter => {
+    const queue: Waiting[] = [];
+    let active = 0;
+    let tokens = rate?.requests ?? Infinity;
+    let refilledAt = Date.now();
+    let pausedUntil = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const refill = (now: number) => {
+        if (!rate) return;
+        const added = ((now - refilledAt) / rate.interval) * rate.requests;
+        tokens = Math.min(rate.requests, tokens + added);
+        refilledAt = now;
+    };
+
+    // Starts the waiting requests the limits allow, or schedules the next attempt
+    const drain = () => {
+        clearTimeout(timer);
+        timer = undefined;
+
+        while (queue.length && active < concurrency) {
+            const now = Date.now();
+            refill(now);
+
+            let wait = pausedUntil - now;
+            if (wait <= 0 && tokens < 1 && rate) {
+                wait = ((1 - tokens) / rate.requests) * rate.interval;
+            }
+            if (wait > 0) {
+                timer = setTimeout(drain, Math.ceil(wait));
+                return;
+            }
+
+            tokens--;
+            active++;
+            queue.shift()?.start();
+        }
+    };
+
+    return {
+        acquire: (priority, signal) =>
+            new Promise((resolve, reject) => {
+                if (signal?.aborted) return reject(signal.reason);
+
+                const onAbort = () => {
+                    const index = queue.indexOf(waiting);
+                    if (index !== -1) queue.splice(index, 1);
+                    reject(signal?.reason);
+                };
+
+                const waiting: Waiting = {
+                    priority,
+                    start: () => {
+                        signal?.removeEventListener("abort", onAbort);
+                        let released = false;
+                        resolve(() => {
+                            if (released) return;
+                            released = true;
+                            active--;
+                            drain();
+                        });
+                    },
+                    cancel: (reason) => {
+                        signal?.removeEventListener("abort", onAbort);
+                        reject(reason);
+                    },
+                };
+
+                // Behind every request of the same or a higher priority
+                const index = queue.findIndex(
+                    (other) => other.priority < priority,
+                );
+                queue.splice(index === -1 ? queue.length : index, 0, waiting);
+                signal?.addEventListener("abort", onAbort, { once: true });
+                drain();
+
+                if (queue.length > maxQueue && queue.includes(waiting)) {
+                    queue.splice(queue.indexOf(waiting), 1);
+                    waiting.cancel(new QueueFull(maxQueue));
+                }
+            }),
+
+        update: (response) => {
+            if (!adaptive) return;
+
+            const retryAfter =
+                response.status === 429 || response.status === 503
+                    ? parseRetryAfter(response.headers.get("Retry-After"))
+                    : null;
+            const remaining = response.headers.get("RateLimit-Remaining");
+            const reset =
+                remaining !== null && Number(remaining) <= 0
+                    ? (parseRetryAfter(
+                          response.headers.get("RateLimit-Reset"),
+                      ) ??
+                      rate?.interval ??
+                      1000)
+                    : null;
+
+            const pause = Math.max(retryAfter ?? 0, reset ?? 0);
+            if (pause > 0) {
+                pausedUntil = Math.max(pausedUntil, Date.now() + pause);
+                drain();
+            }
+        },
+    };
+};
@@ -0,0 +1,443 @@
+import type { FileSystemAdapter, Transport } from "./index";
+import { fromBase64, sleep, toBase64 } from "./util";
+
+/**
+ * A request received by the mock transport
+ */
+export type MockCall = {
+    method: string;
+    url: string;
+    path: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    /** The body as text, empty when there is none */
+    body: string;
+    /** The values of the `:param` segments of the matched route */
+    params: Record<string, string>;
+};
+
+/**
+ * Describes the requests a route answers. A string such as `GET /users/:id`
+ * matches the method and the path.
+ */
+export type MockMatcher =
+    | string
+    | {
+          method?: string;
+          /** The path, `:param` segments matching any segment, or a pattern tested against it */
+          path?: string | RegExp;
+          /** Query params the request must contain */
+          query?: Record<string, string>;
+          /** Value the parsed JSON body must contain, the exact text, or a predicate */
+          body?: unknown;
+      };
+
+/**
+ * A canned response
+ */
+export type MockReply =
+    | Response
+    | {
+          status?: number;
+          statusText?: string;
+          headers?: Record<string, string>;
+          /** Sent as JSON */
+          json?: unknown;
+          body?: string | ArrayBuffer | Uint8Array | Blob | null;
+          /** Delay before responding in milliseconds */
+          delay?: number;
+      };
+
+/**
+ * A canned response or a function computing it from the call
+ */
+export type MockHandler =
+    MockReply | ((call: MockCall) => MockReply | Promise<MockReply>);
+
+/**
+ * Options of the mock transport
+ */
+export type MockTransportOptions = {
+    /**
+     * `record` forwards unmatched requests to the transport and keeps the exchanges,
+     * `replay` answers them from the fixture
+     */
+    mode?: "mock" | "record" | "replay";
+    /** Adapter the fixture is saved to and loaded from */
+    fs?: FileSystemAdapter;
+    /** Name of the fixture file, `fetchio-fixture.json` by default */
+    fixture?: string;
+    /** Transport recorded requests are sent with, `fetch` by default */
+    transport?: Transport;
+};
+
+/**
+ * A transport answering requests from routes, recording every call
+ */
+export interface MockTransport extends Transport {
+    /** Every request received, in order */
+    readonly calls: MockCall[];
+
+    /**
+     * Adds a route, routes added last are tried first
+     * @param matcher - The requests the route answers
+     * @param handler - The response, or a function computing it
+     * @param times - Number of requests answered before the route is removed
+     */
+    on(
+        matcher: MockMatcher,
+        handler: MockHandler,
+        times?: number,
+    ): MockTransport;
+
+    /**
+     * Returns the calls matching a matcher, all calls by default
+     * @param matcher - The requests to look for
+     */
+    called(matcher?: MockMatcher): MockCall[];
+
+    /**
+     * Throws when the number of matching calls differs, or when there are none
+     * @param matcher - The requests to look for
+     * @param times - The exact number of calls expected
+     */
+    assertCalled(matcher: MockMatcher, times?: number): void;
+
+    /**
+     * Throws when a route limited to a number of requests has not been used up
+     */
+    assertDone(): void;
+
+    /**
+     * Removes the routes and the recorded calls
+     */
+    reset(): void;
+
+    /**
+     * Writes the recorded exchanges to the fixture, once their bodies were read
+     */
+    save(): Promise<void>;
+}
+
+// An exchange stored in a fixture
+type FixtureEntry = {
+    method: string;
+    url: string;
+    body: string;
+    response: {
+        status: number;
+        statusText: string;
+        headers: [string, string][];
+        body: string;
+        encoding?: "base64";
+    };
+};
+
+type Route = {
+    matcher: MockMatcher;
+    handler: MockHandler;
+    remaining: number;
+};
+
+const DEFAULT_FIXTURE = "fetchio-fixture.json";
+
+// Compiles a path with `:param` segments into a pattern capturing them
+const pathPattern = (path: string): RegExp =>
+    new RegExp(
+        "^" +
+            path
+                .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+                .replace(/:([A-Za-z_$][\w$]*)/g, "(?<$1>[^/]+)") +
+            "/?$",
+    );
+
+// Whether the actual value contains the expected one, objects compared key by key
+const contains = (expected: unknown, actual: unknown): boolean => {
+    if (Object.is(expected, actual)) return true;
+    if (
+        typeof expected !== "object" ||
+        typeof actual !== "object" ||
+        expected === null ||
+        actual === null
+    ) {
+        return false;
+    }
+    if (Array.isArray(expected)) {
+        return (
+            Array.isArray(actual) &&
+            expected.length === actual.length &&
+            expected.every((item, index) => contains(item, actual[index]))
+        );
+    }
+    return Object.entries(expected).every(([key, value]) =>
+        contains(value, (actual as Record<string, unknown>)[key]),
+    );
+};
+
+const parseJson = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+};
+
+// Returns the params of the path when the call matches, null otherwise
+const match = (
+    matcher: MockMatcher,
+    call: MockCall,
+): Record<string, string> | null => {
+    if (typeof matcher === "string") {
+        const [method, path] = matcher.includes(" ")
+            ? matcher.split(/\s+/, 2)
+            : [undefined, matcher];
+        return match({ method, path }, call);
+    }
+
+    const { method, path, query, body } = matcher;
+    if (method && method.toUpperCase() !== call.method) return null;
+
+    let params: Record<string, string> = {};
+    if (path !== undefined) {
+        const found = (
+            typeof path === "string" ? pathPattern(path) : path
+        ).exec(call.path);
+        if (!found) return null;
+        params = { ...found.groups };
+    }
+
+    if (
+        query &&
+        !Object.entries(query).every(
+            ([key, value]) => call.query[key] === value,
+        )
+    ) {
+        return null;
+    }
+
+    if (body !== undefined) {
+        const matched =
+            typeof body === "function"
+                ? Boolean(body(call.body))
+                : typeof body === "string"
+                  ? body === call.body
+                  : contains(body, parseJson(call.body));
+        if (!matched) return null;
+    }
+
+    return params;
+};
+
+const describeMatcher = (matcher: MockMatcher): string =>
+    typeof matcher === "string" ? matcher : JSON.stringify(matcher);
+
+// Builds the response of a reply
+const respond = async (
+    reply: MockReply,
+    signal: AbortSignal,
+): Promise<Response> => {
+    if (reply instanceof Response) return reply.clone() as Response;
+
+    const { status = 200, statusText, headers = {}, json, body, delay } = reply;
+    // Rejects like fetch once the request is aborted
+    if (delay) await sleep(delay, signal);
+
+    if (json !== undefined) {
+        return Response.json(json, { status, statusText, headers });
+    }
+    return new Response(body ?? null, { status, statusText, headers });
+};
+
+// Reads the parts of a request the routes match against
+const toCall = async (request: Request): Promise<MockCall> => {
+    const url = new URL(request.url);
+    return {
+        method: request.method,
+        url: request.url,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: Object.fromEntries(request.headers),
+        body: request.body ? await request.clone().text() : "",
+        params: {},
+    };
+};
+
+// Stores a response in a fixture entry, binary bodies in base64
+const toEntry = async (
+    call: MockCall,
+    response: Response,
+): Promise<FixtureEntry> => {
+    const bytes = new Uint8Array(await response.clone().arrayBuffer());
+    let body: string;
+    let encoding: "base64" | undefined;
+    try {
+        body = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+        body = toBase64(bytes);
+        encoding = "base64";
+    }
+
+    return {
+        method: call.method,
+        url: call.url,
+        body: call.body,
+        response: {
+            status: response.status,
+            statusText: response.statusText,
+            headers: [...response.headers],
+            body,
+            encoding,
+        },
+    };
+};
+
+const fromEntry = ({ response }: FixtureEntry): Response =>
+    new Response(
+        // Null body statuses cannot carry one, even an empty one
+        [101, 204, 205, 304].includes(response.status)
+            ? null
+            : response.encoding === "base64"
+              ? fromBase64(response.body)
+              : response.body,
+        {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+        },
+    );
+
+/**
+ * Creates a transport answering requests from routes instead of the network.
+ * In record mode, unmatched requests are sent and saved to a fixture that the
+ * replay mode answers from.
+ * @param options - Record and replay options
+ */
+export const createMockTransport = ({
+    mode = "mock",
+    fs,
+    fixture = DEFAULT_FIXTURE,
+    transport = (request) => fetch(request),
+}: MockTransportOptions = {}): MockTransport => {
+    let routes: Route[] = [];
+    const calls: MockCall[] = [];
+    // Entries are recorded as the bodies are read, so streams are not held back
+    const recorded: Promise<FixtureEntry | undefined>[] = [];
+    let replayed: Promise<FixtureEntry[]> | undefined;
+
+    const adapter = (): FileSystemAdapter => {
+        if (!fs) {
+            throw new Error(`A file system adapter is required to ${mode}`);
+        }
+        return fs;
+    };
+
+    const loadFixture = async (): Promise<FixtureEntry[]> => {
+        const data = await adapter().loadFile(fixture);
+        return JSON.parse(await new Response(data).text()) as FixtureEntry[];
+    };
+
+    const replay = async (call: MockCall): Promise<Response> => {
+        replayed ??= loadFixture();
+        const entries = await replayed;
+
+        const index = entries.findIndex(
+            (entry) =>
+                entry.method === call.method &&
+                entry.url === call.url &&
+                entry.body === call.body,
+        );
+        const entry = entries[index];
+        if (!entry) {
+            throw new Error(
+                `No recorded response for ${call.method} ${call.url}`,
+            );
+        }
+        // Identical requests are answered in the recorded order, then cycle
+        entries.splice(index, 1);
+        entries.push(entry);
+        return fromEntry(entry);
+    };
+
+    const mock = (async (request: Request): Promise<Response> => {
+        const call = await toCall(request);
+        calls.push(call);
+
+        for (const route of routes) {
+            const params = match(route.matcher, call);
+            if (!params) continue;
+
+            call.params = params;
+            if (--route.remaining <= 0) {
+                routes = routes.filter((other) => other !== route);
+            }
+            const { handler } = route;
+            return respond(
+                typeof handler === "function" ? await handler(call) : handler,
+                request.signal,
+            );
+        }
+
+        if (mode === "replay") return replay(call);
+        if (mode === "record") {
+            const response = await transport(request);
+            recorded.push(toEntry(call, response).catch(() => undefined));
+            return response;
+        }
+
+        throw new Error(`No mock route for ${call.method} ${call.url}`);
+    }) as MockTransport;
+
+    return Object.assign(mock, {
+        calls,
+
+        on: (matcher: MockMatcher, handler: MockHandler, times = Infinity) => {
+            routes.unshift({ matcher, handler, remaining: times });
+            return mock;
+        },
+
+        called: (matcher?: MockMatcher) =>
+            matcher ? calls.filter((call) => match(matcher, call)) : [...calls],
+
+        assertCalled: (matcher: MockMatcher, times?: number) => {
+            const count = mock.called(matcher).length;
+            if (times === undefined ? count === 0 : count !== times) {
+                throw new Error(
+                    `Expected ${describeMatcher(matcher)} to be called ${
+                        times ?? "at least once"
+                    }${times === undefined ? "" : " times"}, got ${count}`,
+                );
+            }
+        },
+
+        assertDone: () => {
+            const pending = routes.filter(
+                (route) => route.remaining !== Infinity,
+            );
+            if (pending.length) {
+                throw new Error(
+                    `Unused mock routes: ${pending
+                        .map((route) => describeMatcher(route.matcher))
+                        .join(", ")}`,
+                );
+            }
+        },
+
+        reset: () => {
+            routes = [];
+            calls.length = 0;
+        },
+
+        save: async () => {
+            const entries = await Promise.all(recorded);
+            const json = JSON.stringify(
+                entries.filter((entry) => entry !== undefined),
+                null,
+                2,
+            );
+            await adapter().saveFile(
+                await new Blob([json]).arrayBuffer(),
+                fixture,
+            );
+        },
+    });
+};
@@ -0,0 +1,342 @@
+import type { FileSystemAdapter, Transport } from "./index";
+import { fromBase64, toBase64 } from "./util";
+
+/**
+ * A mutation waiting in the offline queue, as it was sent
+ */
+export type QueuedMutation = {
+    id: string;
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    /** The body as text, or in base64 for binary bodies */
+    body?: string;
+    encoding?: "base64";
+    /** Time the mutation was queued in milliseconds */
+    queuedAt: number;
+};
+
+/**
+ * Decides what happens to a replayed mutation the server rejected with a 409 or
+ * 412 status: returns a mutation to send in its place, such as one with updated
+ * headers, or nothing to give up and hand the response to the caller
+ */
+export type ConflictHandler = (
+    mutation: QueuedMutation,
+    response: Response,
+) => QueuedMutation | void | Promise<QueuedMutation | void>;
+
+/**
+ * Options of the offline queue
+ */
+export type OfflineConfig = {
+    /** Stores the queue, the `fs` adapter of the instance by default. Without one the queue only lives in memory. */
+    fs?: FileSystemAdapter;
+    /** File the queue is stored in, `fetchio-offline.json` by default */
+    filename?: string;
+    /** Methods queued when they fail on the network, POST, PUT, PATCH and DELETE by default */
+    methods?: string[];
+    /** Sends the replayed mutations, the transport of the instance by default */
+    transport?: Transport;
+    /** Time between replays while mutations are waiting in milliseconds, 30 seconds by default */
+    retryInterval?: number;
+    onConflict?: ConflictHandler;
+};
+
+/**
+ * Mutations that failed on the network, replayed in order once the network is back
+ */
+export interface OfflineQueue {
+    /** Methods queued when they fail on the network */
+    readonly methods: string[];
+
+    /**
+     * Adds a mutation at the end of the queue and stores the queue
+     * @param mutation - The mutation
+     * @returns The queued mutation and its response, once it was replayed
+     */
+    enqueue(
+        mutation: Omit<QueuedMutation, "id" | "queuedAt">,
+    ): Promise<{ mutation: QueuedMutation; response: Promise<Response> }>;
+
+    /**
+     * Replays the mutations in order, stopping at the first network error
+     */
+    flush(): Promise<void>;
+
+    /**
+     * Returns the waiting mutations, in order
+     */
+    pending(): Promise<QueuedMutation[]>;
+
+    /**
+     * Removes every mutation, their responses are rejected
+     */
+    clear(): Promise<void>;
+}
+
+/**
+ * Error rejecting the response of a queued mutation that could not be replayed,
+ * such as when `onConflict` throws
+ */
+export class ReplayFailed extends Error {
+    constructor(cause: unknown) {
+        super("The queued mutation could not be replayed", { cause });
+        this.name = "ReplayFailed";
+    }
+}
+
+const DEFAULT_FILENAME = "fetchio-offline.json";
+
+// The files of each adapter used by a queue. Two queues on the same file would
+// both replay the stored mutations and overwrite each other's writes.
+const claimed = new WeakMap<FileSystemAdapter, Set<string>>();
+
+const claim = (fs: FileSystemAdapter, filename: string) => {
+    const files = claimed.get(fs) ?? new Set<string>();
+    if (files.has(filename)) {
+        throw new Error(
+            `The offline queue file ${filename} is already used by another queue, share that queue or use another filename`,
+        );
+    }
+    files.add(filename);
+    claimed.set(fs, files);
+};
+
+const CONFLICT_STATUSES = [409, 412];
+
+/**
+ * Captures a request that failed on the network, nothing when its body cannot be
+ * sent again
+ * @param request - The request as it was sent
+ * @param body - The body it was built with
+ */
+export const captureMutation = async (
+    request: Request,
+    body: RequestInit["body"],
+): Promise<Omit<QueuedMutation, "id" | "queuedAt"> | undefined> => {
+    const mutation = {
+        method: request.method,
+        url: request.url,
+        headers: Object.fromEntries(request.headers),
+    };
+    if (body === undefined || body === null) return mutation;
+    if (typeof body === "string") return { ...mutation, body };
+    if (body instanceof ReadableStream) return undefined;
+
+    // Encoding again gives the bytes and the content type, with a new multipart boundary
+    const encoded = new Request(request.url, { method: "POST", body });
+    const contentType = encoded.headers.get("Content-Type");
+    const headers = Object.fromEntries(
+        Object.entries(mutation.headers).filter(
+            ([name]) => name !== "content-type",
+        ),
+    );
+    if (contentType) headers["content-type"] = contentType;
+
+    return {
+        ...mutation,
+        headers,
+        body: toBase64(new Uint8Array(await encoded.arrayBuffer())),
+        encoding: "base64",
+    };
+};
+
+const toRequest = ({
+    method,
+    url,
+    headers,
+    body,
+    encoding,
+}: QueuedMutation): Request =>
+    new Request(url, {
+        method,
+        headers,
+        body:
+            body === undefined
+                ? undefined
+                : encoding === "base64"
+                  ? fromBase64(body)
+                  : body,
+    });
+
+/**
+ * Creates an offline queue. A file of an adapter holds a single queue: creating
+ * a second queue on it throws, as both would replay the stored mutations.
+ * @param config - Where the queue is stored and how mutations are replayed
+ */
+export const createOfflineQueue = ({
+    fs,
+    filename = DEFAULT_FILENAME,
+    methods = ["POST", "PUT", "PATCH", "DELETE"],
+    transport = fetch,
+    retryInterval = 30_000,
+    onConflict,
+}: OfflineConfig = {}): OfflineQueue => {
+    if (fs) claim(fs, filename);
+
+    let mutations: QueuedMutation[] = [];
+    // Settle the responses of the mutations queued by this process
+    const waiting = new Map<
+        string,
+        {
+            resolve: (response: Response) => void;
+            reject: (reason: unknown) => void;
+        }
+    >();
+    let flushing: Promise<void> | undefined;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let saving = Promise.resolve();
+
+    // Mutations stored by a previous run go first
+    const loaded = (async () => {
+        if (!fs) return;
+        try {
+            const data = await fs.loadFile(filename);
+            const stored = JSON.parse(
+                await new Response(data).text(),
+            ) as QueuedMutation[];
+            mutations = [...stored, ...mutations];
+        } catch {
+            // Nothing was stored yet
+        }
+    })();
+
+    // Writes are chained so they land in order
+    const save = () => {
+        saving = saving.then(async () => {
+            if (!fs) return;
+            const json = JSON.stringify(mutations, null, 2);
+            await fs
+                .saveFile(await new Blob([json]).arrayBuffer(), filename)
+                .catch(() => {});
+        });
+        return saving;
+    };
+
+    // Replays the waiting mutations on an interval until the queue is empty
+    const schedule = () => {
+        if (mutations.length === 0) {
+            clearInterval(timer);
+            timer = undefined;
+        } else if (!timer) {
+            timer = setInterval(() => void queue.flush(), retryInterval);
+            // The timer does not keep Node and Bun processes alive
+            (timer as { unref?: () => void }).unref?.();
+        }
+    };
+
+    const settle = (id: string, response: Response) => {
+        waiting.get(id)?.resolve(response);
+        waiting.delete(id);
+    };
+
+    // Removes a mutation that cannot be replayed, so it does not hold back the others
+    const fail = async (mutation: QueuedMutation, cause: unknown) => {
+        mutations.shift();
+        await save();
+        waiting.get(mutation.id)?.reject(new ReplayFailed(cause));
+        waiting.delete(mutation.id);
+    };
+
+    const replay = async () => {
+        await loaded;
+
+        while (mutations.length) {
+            const mutation = mutations[0] as QueuedMutation;
+
+            let request: Request;
+            try {
+                request = toRequest(mutation);
+            } catch (error) {
+                await fail(mutation, error);
+                continue;
+            }
+
+            let response: Response;
+            try {
+                response = await transport(request);
+            } catch {
+                // Still offline, the remaining mutations wait
+                break;
+            }
+
+            if (CONFLICT_STATUSES.includes(response.status) && onConflict) {
+                let replacement: QueuedMutation | void;
+                try {
+                    replacement = await onConflict(mutation, response);
+                } catch (error) {
+                    response.body?.cancel().catch(() => {});
+                    await fail(mutation, error);
+                    continue;
+                }
+                if (replacement) {
+                    await response.body?.cancel();
+                    mutations[0] = { ...replacement, id: mutation.id };
+                    await save();
+                    continue;
+                }
+            }
+
+            mutations.shift();
+            await save();
+            settle(mutation.id, response);
+        }
+        schedule();
+    };
+
+    const queue: OfflineQueue = {
+        methods,
+
+        enqueue: async (entry) => {
+            await loaded;
+
+            const mutation: QueuedMutation = {
+                ...entry,
+                id: crypto.randomUUID(),
+                queuedAt: Date.now(),
+            };
+            const response = new Promise<Response>((resolve, reject) =>
+                waiting.set(mutation.id, { resolve, reject }),
+            );
+            // Callers that never read the response do not cause unhandled rejections
+            response.catch(() => {});
+
+            mutations.push(mutation);
+            await save();
+            schedule();
+            return { mutation, response };
+        },
+
+        flush: () => {
+            flushing ??= replay().finally(() => {
+                flushing = undefined;
+            });
+            return flushing;
+        },
+
+        pending: async () => {
+            await loaded;
+            return [...mutations];
+        },
+
+        clear: async () => {
+            await loaded;
+            mutations = [];
+            for (const { reject } of waiting.values()) {
+                reject(new Error("The offline queue was cleared"));
+            }
+            waiting.clear();
+            schedule();
+            await save();
+        },
+    };
+
+    // Browsers tell when the network is back
+    const events = globalThis as {
+        addEventListener?: (type: string, listener: () => void) => void;
+    };
+    events.addEventListener?.("online", () => void queue.flush());
+
+    return queue;
+};
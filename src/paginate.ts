@@ -0,0 +1,236 @@
+import type { QueryParams } from "./url";
+
+/**
+ * How the request of a page differs from the first one: a URL replacing
+ * the request URL, or params added to the query
+ */
+export type PageRequest = {
+    url?: string;
+    params?: QueryParams;
+};
+
+/**
+ * A fetched page of a paginated endpoint
+ */
+export type Page<T> = {
+    /** The items of the page */
+    items: T[];
+    /** The parsed body of the page */
+    data: unknown;
+    headers: Headers;
+    status: number;
+    /** The URL the page was fetched from */
+    url: string;
+    /** The position of the page, starting at zero */
+    index: number;
+};
+
+/**
+ * Returns the items of a page body, the body itself when it is an array by default
+ */
+export type ItemsSelector<T> = (data: unknown) => T[];
+
+/**
+ * A custom strategy, returning the items of a page and the request of the next one,
+ * or no request on the last page
+ */
+export type PageFunction<T> = (page: Omit<Page<T>, "items">) => {
+    items: T[];
+    next?: PageRequest | null;
+};
+
+/**
+ * How the pages of an endpoint are linked:
+ * - `link` follows the RFC 5988 `Link` header with the given relation, `next` by default
+ * - `cursor` sends the cursor read from a page as a query param, until there is none
+ * - `offset` sends offset and limit query params, until a page has fewer items than the limit
+ */
+export type PaginationStrategy<T> =
+    | { type: "link"; rel?: string; items?: ItemsSelector<T> }
+    | {
+          type: "cursor";
+          cursor: (data: unknown) => string | number | null | undefined;
+          /** Query param carrying the cursor, `cursor` by default */
+          param?: string;
+          items?: ItemsSelector<T>;
+      }
+    | {
+          type: "offset";
+          limit: number;
+          /** Offset of the first page, 0 by default */
+          start?: number;
+          /** Query param carrying the offset, `offset` by default */
+          offsetParam?: string;
+          /** Query param carrying the limit, `limit` by default */
+          limitParam?: string;
+          items?: ItemsSelector<T>;
+      }
+    | PageFunction<T>;
+
+/**
+ * Limits of a pagination
+ */
+export type PaginateOptions = {
+    /** Maximum number of pages fetched */
+    maxPages?: number;
+    /** Maximum number of items yielded, the last page may be cut */
+    maxItems?: number;
+};
+
+/**
+ * The items of a paginated endpoint, fetched page by page while iterating.
+ * Every iteration starts over from the first page.
+ */
+export interface Paginated<T> extends AsyncIterable<T> {
+    /**
+     * Iterates the pages instead of the items
+     */
+    pages(): AsyncIterable<Page<T>>;
+}
+
+/**
+ * Fetches a page, throwing when the request fails
+ */
+export type PageFetcher = (
+    request: PageRequest | undefined,
+) => Promise<Omit<Page<unknown>, "items" | "index">>;
+
+const defaultItems = <T>(data: unknown): T[] =>
+    Array.isArray(data) ? (data as T[]) : [];
+
+/**
+ * Returns the URL of a relation in a `Link` header
+ * @param header - The header value
+ * @param rel - The relation, such as `next`
+ */
+export const parseLink = (
+    header: string | null,
+    rel: string,
+): string | null => {
+    for (const [, url, params = ""] of (header ?? "").matchAll(
+        /<([^>]*)>((?:\s*;\s*[^;,]+)*)/g,
+    )) {
+        const relation = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(params)?.[1];
+        if (relation?.toLowerCase().split(/\s+/).includes(rel)) {
+            return url ?? null;
+        }
+    }
+    return null;
+};
+
+// Resolves a URL against the page it was found in, when that page has an absolute URL
+const resolve = (url: string, base: string): string => {
+    try {
+        return new URL(url, base).href;
+    } catch {
+        return url;
+    }
+};
+
+// Turns a strategy into the first request and a function reading every page
+const resolveStrategy = <T>(
+    strategy: PaginationStrategy<T>,
+): { first?: PageRequest; read: PageFunction<T> } => {
+    if (typeof strategy === "function") return { read: strategy };
+
+    const items = strategy.items ?? defaultItems<T>;
+
+    switch (strategy.type) {
+        case "link": {
+            const rel = strategy.rel ?? "next";
+            return {
+                read: (page) => {
+                    const next = parseLink(page.headers.get("Link"), rel);
+                    return {
+                        items: items(page.data),
+                        next: next ? { url: resolve(next, page.url) } : null,
+                    };
+                },
+            };
+        }
+        case "cursor": {
+            const param = strategy.param ?? "cursor";
+            return {
+                read: (page) => {
+                    const cursor = strategy.cursor(page.data);
+                    return {
+                        items: items(page.data),
+                        next:
+                            cursor === null ||
+                            cursor === undefined ||
+                            cursor === ""
+                                ? null
+                                : { params: { [param]: cursor } },
+                    };
+                },
+            };
+        }
+        case "offset": {
+            const {
+                limit,
+                start = 0,
+                offsetParam = "offset",
+                limitParam = "limit",
+            } = strategy;
+            const request = (offset: number): PageRequest => ({
+                params: { [offsetParam]: offset, [limitParam]: limit },
+            });
+
+            return {
+                first: request(start),
+                read: (page) => {
+                    const found = items(page.data);
+                    return {
+                        items: found,
+                        next:
+                            found.length < limit
+                                ? null
+                                : request(start + (page.index + 1) * limit),
+                    };
+                },
+            };
+        }
+    }
+};
+
+/**
+ * Creates the iterables of a paginated endpoint
+ * @param fetchPage - Fetches a page
+ * @param strategy - How the pages are linked
+ * @param options - Limits of the pagination
+ */
+export const paginate = <T>(
+    fetchPage: PageFetcher,
+    strategy: PaginationStrategy<T>,
+    { maxPages = Infinity, maxItems = Infinity }: PaginateOptions = {},
+): Paginated<T> => {
+    const { first, read } = resolveStrategy(strategy);
+
+    async function* pages(): AsyncGenerator<Page<T>> {
+        let request = first;
+        let yielded = 0;
+
+        for (let index = 0; index < maxPages && yielded < maxItems; index++) {
+            const fetched = { ...(await fetchPage(request)), index };
+            const { items, next } = read(fetched);
+
+            const page = {
+                ...fetched,
+                items: items.slice(0, maxItems - yielded),
+            };
+            yielded += page.items.length;
+            yield page;
+
+            if (!next) return;
+            request = next;
+        }
+    }
+
+    return {
+        pages,
+
+        async *[Symbol.asyncIterator]() {
+            for await (const page of pages()) yield* page.items;
+        },
+    };
+};
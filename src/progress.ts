@@ -0,0 +1,202 @@
+/**
+ * Progress of a transfer
+ */
+export type Progress = {
+    /** Bytes transferred so far */
+    loaded: number;
+    /** Total bytes to transfer, when known */
+    total?: number;
+    /** Average transfer rate in bytes per second */
+    rate: number;
+};
+
+/**
+ * A function receiving the progress of a transfer
+ */
+export type ProgressCallback = (progress: Progress) => void;
+
+// Size of the chunks an upload body is split into
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Reports the bytes flowing through a stream
+ * @param stream - The stream to observe
+ * @param total - Total bytes expected, when known
+ * @param onProgress - Called after every chunk
+ */
+export const trackProgress = (
+    stream: ReadableStream<Uint8Array>,
+    total: number | undefined,
+    onProgress: ProgressCallback,
+): ReadableStream<Uint8Array> => {
+    const start = performance.now();
+    let loaded = 0;
+
+    return stream.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                loaded += chunk.byteLength;
+                controller.enqueue(chunk);
+
+                const elapsed = (performance.now() - start) / 1000;
+                onProgress({
+                    loaded,
+                    total,
+                    rate: elapsed > 0 ? loaded / elapsed : 0,
+                });
+            },
+        }),
+    );
+};
+
+/**
+ * Wraps the body of a response so reading it reports progress
+ * @param response - The response to wrap
+ * @param onProgress - Called as the body is read
+ */
+export const withDownloadProgress = (
+    response: Response,
+    onProgress: ProgressCallback,
+): Response => {
+    if (!response.body) return response;
+
+    const length = Number(response.headers.get("Content-Length") ?? NaN);
+    const tracked = new Response(
+        trackProgress(
+            response.body,
+            Number.isNaN(length) ? undefined : length,
+            onProgress,
+        ),
+        {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+        },
+    );
+
+    // The URL is lost when rebuilding the response but is used to name downloads
+    Object.defineProperty(tracked, "url", { value: response.url });
+    return tracked;
+};
+
+// Whether fetch can send streams: browsers without support send them as the
+// text "[object ReadableStream]", with a text Content-Type
+let streamBodies: boolean | undefined;
+const supportsStreamBodies = (): boolean => {
+    if (streamBodies === undefined) {
+        try {
+            streamBodies = !new Request("http://localhost/", {
+                method: "POST",
+                body: new ReadableStream(),
+                duplex: "half",
+            } as RequestInit).headers.has("Content-Type");
+        } catch {
+            streamBodies = false;
+        }
+    }
+    return streamBodies;
+};
+
+// Splits the chunks of a stream so progress is reported at a steady pace
+const rechunk = (
+    stream: ReadableStream<Uint8Array>,
+): ReadableStream<Uint8Array> =>
+    stream.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                for (
+                    let offset = 0;
+                    offset < chunk.byteLength;
+                    offset += UPLOAD_CHUNK_SIZE
+                ) {
+                    controller.enqueue(
+                        chunk.subarray(offset, offset + UPLOAD_CHUNK_SIZE),
+                    );
+                }
+            },
+        }),
+    );
+
+/**
+ * A request body wrapped to report progress
+ */
+export type UploadBody = {
+    body: NonNullable<RequestInit["body"]>;
+    /** The content type the body is encoded with */
+    contentType: string | null;
+    length?: number;
+    /** Whether the body is a stream, which must be sent with `duplex: "half"` */
+    stream: boolean;
+    /** Reports the end of uploads that are not streamed */
+    complete: () => void;
+    /** The body in one piece, for when fetch rejects the stream */
+    fallback?: () => UploadBody;
+};
+
+// Sends a blob in one piece, reporting the progress once it was sent
+const inOnePiece = (
+    blob: Blob,
+    contentType: string | null,
+    start: number,
+    onProgress: ProgressCallback,
+): UploadBody => ({
+    body: blob,
+    contentType,
+    length: blob.size,
+    stream: false,
+    complete: () => {
+        const elapsed = (performance.now() - start) / 1000;
+        onProgress({
+            loaded: blob.size,
+            total: blob.size,
+            rate: elapsed > 0 ? blob.size / elapsed : 0,
+        });
+    },
+});
+
+/**
+ * Wraps a request body so sending it reports progress. Without support for
+ * streamed request bodies, the body is sent as it is and progress is only
+ * reported once it was sent.
+ * @param body - The request body
+ * @param onProgress - Called as the body is sent
+ */
+export const withUploadProgress = async (
+    body: NonNullable<RequestInit["body"]>,
+    onProgress: ProgressCallback,
+): Promise<UploadBody> => {
+    if (body instanceof ReadableStream) {
+        return {
+            body: trackProgress(body, undefined, onProgress),
+            contentType: null,
+            stream: true,
+            complete: () => {},
+        };
+    }
+
+    // Blobs are streamed as they are, other bodies are encoded through a Request,
+    // which gives the exact bytes, including multipart boundaries
+    const start = performance.now();
+    const encoded =
+        body instanceof Blob
+            ? undefined
+            : new Request("http://localhost/", { method: "POST", body });
+    const contentType = encoded
+        ? encoded.headers.get("Content-Type")
+        : (body as Blob).type || null;
+    const blob = encoded ? await encoded.blob() : (body as Blob);
+
+    if (!supportsStreamBodies()) {
+        return inOnePiece(blob, contentType, start, onProgress);
+    }
+
+    return {
+        body: trackProgress(rechunk(blob.stream()), blob.size, onProgress),
+        contentType,
+        length: blob.size,
+        stream: true,
+        complete: () => {},
+        // Chromium only sends streamed bodies over HTTP/2 and later
+        fallback: () => inOnePiece(blob, contentType, start, onProgress),
+    };
+};
@@ -0,0 +1,294 @@
+/**
+ * An event received from a text/event-stream response
+ */
+export type ServerSentEvent<T = string> = {
+    /** The event type, `message` when the server did not name it */
+    event: string;
+    data: T;
+    /** The last event id sent by the server */
+    id?: string;
+};
+
+/**
+ * Options of a Server-Sent Events stream
+ */
+export type EventStreamOptions<T> = {
+    /** Parses the data of every event, such as `JSON.parse` */
+    parse?: (data: string) => T;
+    /** Whether to reconnect when the connection ends or fails, true by default */
+    reconnect?: boolean;
+    /** Delay before reconnecting until the server suggests one, 3000ms by default */
+    retryDelay?: number;
+    /** Maximum number of consecutive reconnections without receiving an event */
+    maxReconnects?: number;
+};
+
+/**
+ * A Server-Sent Events stream, consumed by iterating it or by subscribing to events
+ */
+export interface EventStream<T = string> extends AsyncIterable<
+    ServerSentEvent<T>
+> {
+    /**
+     * Subscribes to the events of a type
+     * @param event - The event type, `message` for unnamed events
+     * @param handler - Called with every event of the type
+     * @returns A function removing the subscription
+     */
+    on(event: string, handler: (event: ServerSentEvent<T>) => void): () => void;
+
+    /**
+     * Subscribes to the failure ending the stream
+     * @param handler - Called with the error
+     * @returns A function removing the subscription
+     */
+    onError(handler: (error: unknown) => void): () => void;
+
+    /**
+     * Closes the stream and aborts the current connection
+     */
+    close(): void;
+}
+
+/**
+ * A connection to the event stream
+ */
+export type EventConnection = {
+    /** The lines of the response body */
+    lines: AsyncIterable<string>;
+    /** Whether the server asked not to reconnect */
+    final: () => boolean;
+};
+
+/**
+ * How the event stream opens and aborts connections
+ */
+export type EventConnector = {
+    /** Opens a connection, sending the last event id when there is one */
+    connect: (lastEventId?: string) => EventConnection;
+    /** Aborts the current connection */
+    abort: () => void;
+    /** Whether a connection failing with the error may be reopened */
+    canReconnect: (error: unknown) => boolean;
+};
+
+/**
+ * State carried by a parsed block of fields
+ */
+type EventBlock = {
+    lastEventId?: string;
+    retry?: number;
+    event?: ServerSentEvent<string>;
+};
+
+/**
+ * Parses the lines of a text/event-stream body into blocks
+ * @param lines - The lines of the body
+ * @param lastEventId - The id carried over from a previous connection
+ */
+export async function* parseEvents(
+    lines: AsyncIterable<string>,
+    lastEventId?: string,
+): AsyncGenerator<EventBlock> {
+    let event = "";
+    let data: string[] = [];
+    let id = lastEventId;
+    let retry: number | undefined;
+
+    for await (const line of lines) {
+        if (line === "") {
+            yield {
+                lastEventId: id,
+                retry,
+                event: data.length
+                    ? { event: event || "message", data: data.join("\n"), id }
+                    : undefined,
+            };
+            event = "";
+            data = [];
+            retry = undefined;
+            continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value =
+            colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+        if (field === "event") {
+            event = value;
+        } else if (field === "data") {
+            data.push(value);
+        } else if (field === "id" && !value.includes("\0")) {
+            id = value;
+        } else if (field === "retry" && /^\d+$/.test(value)) {
+            retry = Number(value);
+        }
+    }
+}
+
+/**
+ * Creates an event stream that connects lazily, on the first subscription or iteration
+ * @param source - Opens and aborts the connections
+ * @param options - Stream options
+ */
+export const createEventStream = <T>(
+    { connect, abort, canReconnect }: EventConnector,
+    {
+        parse = (data) => data as T,
+        reconnect = true,
+        retryDelay = 3000,
+        maxReconnects = Infinity,
+    }: EventStreamOptions<T> = {},
+): EventStream<T> => {
+    const handlers = new Map<
+        string,
+        Set<(event: ServerSentEvent<T>) => void>
+    >();
+    const errorHandlers = new Set<(error: unknown) => void>();
+    const consumers = new Set<{
+        queue: ServerSentEvent<T>[];
+        wake: () => void;
+    }>();
+
+    let started = false;
+    let closed = false;
+    let failure: { error: unknown } | undefined;
+    let wakeDelay = () => {};
+
+    const notify = () => consumers.forEach((consumer) => consumer.wake());
+
+    const dispatch = (event: ServerSentEvent<T>) => {
+        handlers.get(event.event)?.forEach((handler) => handler(event));
+        consumers.forEach((consumer) => consumer.queue.push(event));
+        notify();
+    };
+
+    const pump = async () => {
+        let lastEventId: string | undefined;
+        let delay = retryDelay;
+        let reconnects = 0;
+
+        while (!closed) {
+            const connection = connect(lastEventId);
+            try {
+                for await (const block of parseEvents(
+                    connection.lines,
+                    lastEventId,
+                )) {
+                    lastEventId = block.lastEventId;
+                    if (block.retry !== undefined) delay = block.retry;
+                    if (!block.event) continue;
+
+                    reconnects = 0;
+                    dispatch({ ...block.event, data: parse(block.event.data) });
+                }
+            } catch (error) {
+                if (closed) break;
+                if (!reconnect || !canReconnect(error)) {
+                    failure = { error };
+                    errorHandlers.forEach((handler) => handler(error));
+                    break;
+                }
+            }
+
+            if (
+                closed ||
+                !reconnect ||
+                connection.final() ||
+                reconnects >= maxReconnects
+            ) {
+                break;
+            }
+            reconnects++;
+            await new Promise<void>((resolve) => {
+                const timer = setTimeout(resolve, delay);
+                wakeDelay = () => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+            });
+        }
+
+        closed = true;
+        notify();
+    };
+
+    const start = () => {
+        if (started) return;
+        started = true;
+        void pump();
+    };
+
+    const stream: EventStream<T> = {
+        on: (event, handler) => {
+            const subscribed = handlers.get(event) ?? new Set();
+            subscribed.add(handler);
+            handlers.set(event, subscribed);
+            start();
+
+            return () => {
+                subscribed.delete(handler);
+                if (!subscribed.size) handlers.delete(event);
+            };
+        },
+
+        onError: (handler) => {
+            errorHandlers.add(handler);
+            return () => {
+                errorHandlers.delete(handler);
+            };
+        },
+
+        close: () => {
+            if (closed) return;
+            closed = true;
+            abort();
+            wakeDelay();
+            notify();
+        },
+
+        [Symbol.asyncIterator]: () => {
+            const consumer = {
+                queue: [] as ServerSentEvent<T>[],
+                wake: () => {},
+            };
+            consumers.add(consumer);
+            start();
+
+            const leave = () => {
+                consumers.delete(consumer);
+                // Nobody is listening anymore, the connection is not needed
+                if (!consumers.size && !handlers.size) stream.close();
+            };
+
+            return {
+                next: async () => {
+                    while (true) {
+                        const event = consumer.queue.shift();
+                        if (event) return { done: false, value: event };
+                        if (failure) {
+                            leave();
+                            throw failure.error;
+                        }
+                        if (closed) {
+                            leave();
+                            return { done: true, value: undefined };
+                        }
+                        await new Promise<void>((resolve) => {
+                            consumer.wake = resolve;
+                        });
+                    }
+                },
+
+                return: async () => {
+                    leave();
+                    return { done: true, value: undefined };
+                },
+            };
+        },
+    };
+
+    return stream;
+};
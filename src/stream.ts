@@ -0,0 +1,46 @@
+/**
+ * Decodes chunks of UTF-8 text into lines, without their line terminators
+ * @param chunks - The chunks of a response body
+ */
+export async function* readLines(
+    chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffered = "";
+
+    for await (const chunk of chunks) {
+        buffered += decoder.decode(chunk, { stream: true });
+
+        let index = buffered.indexOf("\n");
+        while (index !== -1) {
+            yield buffered.slice(0, index).replace(/\r$/, "");
+            buffered = buffered.slice(index + 1);
+            index = buffered.indexOf("\n");
+        }
+    }
+
+    buffered += decoder.decode();
+    if (buffered) yield buffered.replace(/\r$/, "");
+}
+
+/**
+ * Parses newline delimited JSON, skipping blank lines
+ * @param lines - The lines of a response body
+ * @param onError - Returns the error thrown for a line that is not valid JSON
+ */
+export async function* parseNdjson<T>(
+    lines: AsyncIterable<string>,
+    onError: (cause: unknown) => Error,
+): AsyncGenerator<T> {
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        let value: T;
+        try {
+            value = JSON.parse(line) as T;
+        } catch (cause) {
+            throw onError(cause);
+        }
+        yield value;
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * A value accepted as a query parameter. Dates are sent in ISO 8601 format,
+ * null and undefined values are left out.
+ */
+export type QueryValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Query parameters, arrays sending one value per item
+ */
+export type QueryParams = Record<string, QueryValue | readonly QueryValue[]>;
+
+/**
+ * How arrays are written in the query string:
+ * `ids=1&ids=2`, `ids=1,2` or `ids[]=1&ids[]=2`
+ */
+export type ArrayFormat = "repeat" | "comma" | "brackets";
+
+type Chars<
+    Text extends string,
+    Found extends string = never,
+> = Text extends `${infer Char}${infer Rest}`
+    ? Chars<Rest, Found | Char>
+    : Found;
+
+type ParamStart =
+    Chars<"abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_$">;
+
+type ParamChar = ParamStart | Chars<"0123456789">;
+
+// Reads the param name at the start of a string, as matched by `fillPath`
+type ParamName<
+    Text extends string,
+    Name extends string = "",
+> = Text extends `${infer Char}${infer Rest}`
+    ? Char extends (Name extends "" ? ParamStart : ParamChar)
+        ? ParamName<Rest, `${Name}${Char}`>
+        : Name
+    : Name;
+
+// The path of a URL, without its scheme, authority, query and fragment
+type PathOf<Url extends string> = Url extends `${infer Base}#${string}`
+    ? PathOf<Base>
+    : Url extends `${infer Base}?${string}`
+      ? PathOf<Base>
+      : Url extends `${string}://${infer Rest}` | `//${infer Rest}`
+        ? Rest extends `${string}/${infer Path}`
+            ? `/${Path}`
+            : ""
+        : Url;
+
+type ParamNamesIn<Path extends string> = Path extends `${string}:${infer Rest}`
+    ? Exclude<ParamName<Rest>, ""> | ParamNamesIn<Rest>
+    : never;
+
+/**
+ * The names of the `:param` segments of a path template. The scheme and the
+ * authority of absolute URLs, such as a `host:port`, are not part of it.
+ */
+export type PathParamNames<Path extends string> = ParamNamesIn<PathOf<Path>>;
+
+/**
+ * The values of the `:param` segments of a path template
+ */
+export type PathParams<Path extends string> = {
+    [Name in PathParamNames<Path>]: string | number;
+};
+
+/**
+ * The options argument of a request, required with the path params
+ * when the path is a template
+ */
+export type PathArgs<Path extends string, Options> = [
+    PathParamNames<Path>,
+] extends [never]
+    ? [options?: Options & { pathParams?: Record<string, string | number> }]
+    : [options: Options & { pathParams: PathParams<Path> }];
+
+const decode = (value: string): string => {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, " "));
+    } catch {
+        return value;
+    }
+};
+
+const formatValue = (value: Exclude<QueryValue, null | undefined>): string =>
+    value instanceof Date ? value.toISOString() : String(value);
+
+// Encodes the parameters into `key=value` pairs
+const encodeQuery = (params: QueryParams, arrayFormat: ArrayFormat): string[] =>
+    Object.entries(params).flatMap(([key, value]) => {
+        const name = encodeURIComponent(key);
+
+        const values: readonly QueryValue[] = Array.isArray(value)
+            ? value
+            : [value as QueryValue];
+        const items = values
+            .filter((item) => item !== null && item !== undefined)
+            .map((item) => encodeURIComponent(formatValue(item!)));
+
+        if (!Array.isArray(value)) {
+            return items.map((item) => `${name}=${item}`);
+        }
+
+        if (arrayFormat === "comma") {
+            return items.length ? [`${name}=${items.join(",")}`] : [];
+        }
+        const itemName = arrayFormat === "brackets" ? `${name}%5B%5D` : name;
+        return items.map((item) => `${itemName}=${item}`);
+    });
+
+/**
+ * Replaces the `:param` segments of a path with their encoded values,
+ * leaving segments without a value untouched, as well as the scheme, the
+ * authority and the query of absolute URLs
+ * @param path - The path template
+ * @param params - The values of the segments
+ */
+export const fillPath = (
+    path: string,
+    params: Record<string, string | number> = {},
+): string => {
+    // The scheme and authority, such as a `host:port`, and the query are left as they are
+    const [, origin = "", pathname = "", rest = ""] =
+        /^((?:[a-z][a-z\d+.-]*:)?\/\/[^/?#]*)?([^?#]*)(.*)$/is.exec(path) ?? [];
+    const filled = pathname.replace(
+        /:([A-Za-z_$][\w$]*)/g,
+        (segment, name: string) =>
+            Object.hasOwn(params, name)
+                ? encodeURIComponent(String(params[name]))
+                : segment,
+    );
+    return origin + filled + rest;
+};
+
+/**
+ * Appends query parameters to a URL, replacing the parameters of the same
+ * name already present in it
+ * @param url - The URL, which may have a query and a fragment
+ * @param params - The parameters to append
+ * @param arrayFormat - How arrays are written
+ */
+export const withQuery = (
+    url: string,
+    params: QueryParams,
+    arrayFormat: ArrayFormat = "repeat",
+): string => {
+    const hashIndex = url.indexOf("#");
+    const fragment = hashIndex === -1 ? "" : url.slice(hashIndex);
+    const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+
+    const queryIndex = base.indexOf("?");
+    const path = queryIndex === -1 ? base : base.slice(0, queryIndex);
+    const existing = queryIndex === -1 ? "" : base.slice(queryIndex + 1);
+
+    const replaced = new Set(Object.keys(params));
+    const pairs = existing.split("&").filter((pair) => {
+        if (!pair) return false;
+        const key = decode(pair.split("=")[0] ?? "");
+        return !replaced.has(key.replace(/\[\]$/, ""));
+    });
+    pairs.push(...encodeQuery(params, arrayFormat));
+
+    return (pairs.length ? `${path}?${pairs.join("&")}` : path) + fragment;
+};
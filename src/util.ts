@@ -0,0 +1,61 @@
+/**
+ * Encodes bytes in base64
+ * @param bytes - The bytes to encode
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary);
+};
+
+/**
+ * Decodes base64 text into bytes
+ * @param text - The base64 text
+ */
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/**
+ * Wraps file data in a Blob
+ * @param data - The data, as loaded or saved by a file system adapter
+ */
+export const toBlob = (data: Buffer | Blob | ArrayBuffer): Blob =>
+    data instanceof Blob ? data : new Blob([data]);
+
+/**
+ * Parses a delay given either in seconds or as an HTTP date, such as a
+ * Retry-After header, into milliseconds
+ * @param value - The header value
+ */
+export const parseRetryAfter = (value: string | null): number | null => {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+    return null;
+};
+
+/**
+ * Waits for the given time, rejecting early with the reason of the signal
+ * when it is aborted
+ * @param ms - The time in milliseconds
+ * @param signal - Stops the wait
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
@@ -1,8 +1,30 @@
 import { expect, describe, it, beforeAll, afterAll, mock } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
+    createCookieJar,
     createFetchio,
-    type FetchResult,
+    createMemoryCache,
+    createCircuitBreaker,
+    createHarRecorder,
+    createMockTransport,
+    createOfflineQueue,
+    createTracingHooks,
+    createNodeFileSystem,
+    defineApi,
+    FetchioError,
+    typed,
     type FetchioConfig,
+    type FileSystemAdapter,
+    type ArrayFormat,
+    type Progress,
+    type CircuitEvent,
+    type RequestBuilder,
+    type RequestContext,
+    type SpanLike,
+    type ServerSentEvent,
+    type StandardSchema,
 } from "./src/index";
 
 interface ApiResponse<T = any> {
@@ -10,7 +32,72 @@ interface ApiResponse<T = any> {
     data?: T;
 }
 
-let server: Bun.Server;
+let server: Bun.Server<undefined>;
+
+// Minimal Standard Schema requiring a string `message` property
+const messageSchema: StandardSchema<unknown, { message: string }> = {
+    "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => {
+            const message = (value as { message?: unknown })?.message;
+            return typeof message === "string"
+                ? { value: { message } }
+                : {
+                      issues: [
+                          {
+                              message: "Expected a string",
+                              path: [{ key: "message" }],
+                          },
+                      ],
+                  };
+        },
+    },
+};
+
+// Streams cancelled by clients, per id
+const cancelledStreams = new Set<string>();
+
+// Streams the given lines one chunk at a time, with a pause between chunks
+const streamLines = (id: string, lines: string[], pause = 0) => {
+    let index = 0;
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (index >= lines.length) return controller.close();
+            if (pause) await Bun.sleep(pause);
+            controller.enqueue(new TextEncoder().encode(lines[index++]));
+        },
+        cancel() {
+            cancelledStreams.add(id);
+        },
+    });
+};
+
+// Counts calls per id so flaky routes can fail a given number of times
+const callCounts = new Map<string, number>();
+
+const countCall = (req: Request): { count: number; url: URL } => {
+    const url = new URL(req.url);
+    const id = url.searchParams.get("id") ?? "";
+    const count = (callCounts.get(id) ?? 0) + 1;
+    callCounts.set(id, count);
+    return { count, url };
+};
+
+const flaky = (req: Request) => {
+    const { count, url } = countCall(req);
+    const fails = Number(url.searchParams.get("fails") ?? "0");
+    const status = Number(url.searchParams.get("status") ?? "503");
+    const retryAfter = url.searchParams.get("retryAfter");
+
+    if (count <= fails) {
+        return new Response("Unavailable", {
+            status,
+            headers: retryAfter ? { "Retry-After": retryAfter } : {},
+        });
+    }
+    return Response.json({ message: "Recovered", count });
+};
 
 beforeAll(() => {
     // Start the test server
@@ -75,10 +162,13 @@ beforeAll(() => {
                     const params = Object.fromEntries(
                         url.searchParams.entries(),
                     );
-                    return Response.json({ params });
+                    return Response.json({ params, search: url.search });
                 },
             },
 
+            // Path template route
+            "/users/:id/posts/:postId": (req) => Response.json(req.params),
+
             // Headers test route
             "/headers": {
                 GET: (req) => {
@@ -166,6 +256,210 @@ beforeAll(() => {
                 },
             },
 
+            // Retry test route, fails the first `fails` calls per id
+            "/flaky": {
+                GET: flaky,
+                POST: flaky,
+            },
+
+            // Slow route, responds after the given delay
+            "/slow": {
+                GET: async (req) => {
+                    const { url } = countCall(req);
+                    const delay = Number(url.searchParams.get("delay") ?? "200");
+                    await Bun.sleep(delay);
+                    return Response.json({ message: "Slow GET" });
+                },
+            },
+
+            // Invalid JSON body with a successful status
+            "/invalid-json": new Response("{ not json", {
+                headers: { "Content-Type": "application/json" },
+            }),
+
+            // JSON error body
+            "/error/validation": Response.json(
+                { message: "Invalid name" },
+                { status: 422 },
+            ),
+
+            // Cacheable route, answers 304 when the ETag matches
+            "/cached": {
+                GET: (req) => {
+                    const { count, url } = countCall(req);
+                    const maxAge = url.searchParams.get("maxAge") ?? "0";
+                    const vary = url.searchParams.get("vary");
+                    const etag = `"v1"`;
+                    const headers: Record<string, string> = {
+                        "Cache-Control":
+                            url.searchParams.get("cacheControl") ??
+                            `max-age=${maxAge}`,
+                        ETag: etag,
+                    };
+                    if (vary) headers["Vary"] = vary;
+
+                    if (req.headers.get("if-none-match") === etag) {
+                        return new Response(null, { status: 304, headers });
+                    }
+                    return Response.json(
+                        { count, user: req.headers.get("authorization") },
+                        { headers },
+                    );
+                },
+            },
+
+            // File download route with a Content-Disposition header
+            "/download": {
+                GET: (req) => {
+                    const url = new URL(req.url);
+                    const disposition = url.searchParams.get("disposition");
+                    return new Response("File content", {
+                        headers: disposition
+                            ? { "Content-Disposition": disposition }
+                            : {},
+                    });
+                },
+            },
+
+            // Upload route echoing the received body or multipart parts
+            "/upload": {
+                POST: async (req) => {
+                    const contentType = req.headers.get("content-type") ?? "";
+                    if (!contentType.includes("multipart/form-data")) {
+                        return Response.json({
+                            contentType,
+                            body: await req.text(),
+                        });
+                    }
+
+                    const parts: Record<string, unknown> = {};
+                    (await req.formData()).forEach((value, key) => {
+                        parts[key] =
+                            typeof value === "string"
+                                ? value
+                                : { name: (value as File).name };
+                    });
+                    return Response.json({ contentType, parts });
+                },
+            },
+
+            // Large body for progress reporting
+            "/large": new Response(new Uint8Array(256 * 1024).fill(97), {
+                headers: { "Content-Length": String(256 * 1024) },
+            }),
+
+            // NDJSON route, split across chunks in the middle of lines
+            "/ndjson": {
+                GET: (req) => {
+                    const url = new URL(req.url);
+                    const id = url.searchParams.get("id") ?? "";
+                    const count = Number(url.searchParams.get("count") ?? "3");
+                    const text = Array.from(
+                        { length: count },
+                        (_, index) => JSON.stringify({ index }) + "\r\n",
+                    ).join("");
+                    const chunks = text.match(/.{1,7}/gs) ?? [];
+                    const pause = Number(url.searchParams.get("pause") ?? "0");
+
+                    return new Response(streamLines(id, chunks, pause), {
+                        headers: { "Content-Type": "application/x-ndjson" },
+                    });
+                },
+            },
+
+            // Server-Sent Events route, resuming after the Last-Event-ID
+            "/events": async (req) => {
+                const { url } = countCall(req);
+                const last = Number(req.headers.get("last-event-id") ?? "0");
+                const body = req.method === "POST" ? await req.text() : "";
+
+                if (last >= 3) return new Response(null, { status: 204 });
+
+                const next = last + 1;
+                const text = [
+                    ": comment\n",
+                    "retry: 5\n\n",
+                    `id: ${next}\n`,
+                    next === 2 ? "event: update\n" : "",
+                    `data: {"n":${next},\n`,
+                    `data: "body":"${body}",\n`,
+                    `data: "auth":"${req.headers.get("authorization") ?? ""}",\n`,
+                    `data: "accept":"${req.headers.get("accept")}"}\n\n`,
+                ].join("");
+
+                return new Response(
+                    streamLines(url.searchParams.get("id") ?? "", [text]),
+                    { headers: { "Content-Type": "text/event-stream" } },
+                );
+            },
+
+            // Paginated route, linking pages by Link header, cursor or offset
+            "/pages": (req) => {
+                const { url } = countCall(req);
+                if (req.headers.get("x-token") !== "secret") {
+                    return new Response("Unauthorized", { status: 401 });
+                }
+
+                const all = [1, 2, 3, 4, 5, 6, 7];
+                const style = url.searchParams.get("style");
+
+                if (style === "cursor") {
+                    const start = Number(url.searchParams.get("cursor") ?? "0");
+                    return Response.json({
+                        items: all.slice(start, start + 3),
+                        next: start + 3 < all.length ? String(start + 3) : null,
+                    });
+                }
+                if (style === "offset") {
+                    const offset = Number(url.searchParams.get("offset"));
+                    const limit = Number(url.searchParams.get("limit"));
+                    return Response.json({
+                        results: all.slice(offset, offset + limit),
+                    });
+                }
+
+                const page = Number(url.searchParams.get("page") ?? "1");
+                const next = new URL(url);
+                next.searchParams.set("page", String(page + 1));
+                return Response.json(all.slice((page - 1) * 3, page * 3), {
+                    headers:
+                        page * 3 < all.length
+                            ? {
+                                  Link: `</pages>; rel="first", <${next.pathname}${next.search}>; rel="next"`,
+                              }
+                            : {},
+                });
+            },
+
+            // Authenticated route accepting the "fresh" bearer token and basic credentials
+            "/protected": (req) => {
+                countCall(req);
+                const authorization = req.headers.get("authorization");
+                if (
+                    authorization !== "Bearer fresh" &&
+                    !authorization?.startsWith("Basic ")
+                ) {
+                    return new Response("Unauthorized", { status: 401 });
+                }
+                return Response.json({ authorization });
+            },
+
+            // Sets a session cookie
+            "/cookies/login": () =>
+                new Response("", {
+                    headers: { "Set-Cookie": "session=abc; Path=/; HttpOnly" },
+                }),
+            "/cookies/redirect": (req) => {
+                const { searchParams } = new URL(req.url);
+                return new Response(null, {
+                    status: Number(searchParams.get("status") ?? "302"),
+                    headers: {
+                        Location: "/hello",
+                        "Set-Cookie": "redirected=yes; Path=/",
+                    },
+                });
+            },
+
             // Error simulation routes
             "/error/bad-request": new Response("Bad Request", { status: 400 }),
             "/error/unauthorized": new Response("Unauthorized", {
@@ -179,7 +473,7 @@ beforeAll(() => {
         },
 
         // Fallback handler
-        fetch(req) {
+        fetch() {
             return new Response("Not Found", { status: 404 });
         },
     });
@@ -335,6 +629,244 @@ describe("Fetchio API", () => {
             expect(result.success).toBe(true);
             expect(result.data?.params).toEqual(params);
         });
+
+        it("should encode keys and values", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api
+                .get("/query")
+                .params({ "a b": "x&y=z", name: "Zoë #1", page: 2, on: true })
+                .json<{ params: Record<string, string> }>();
+
+            expect(result.data?.params).toEqual({
+                "a b": "x&y=z",
+                name: "Zoë #1",
+                page: "2",
+                on: "true",
+            });
+        });
+
+        it("should drop null and undefined values and format dates", async () => {
+            const api = createFetchio(baseUrl);
+            const date = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+
+            const result = await api
+                .get("/query")
+                .params({ empty: null, missing: undefined, since: date })
+                .json<{ search: string }>();
+
+            expect(result.data?.search).toBe(
+                "?since=2024-01-02T03%3A04%3A05.000Z",
+            );
+        });
+
+        it("should serialize arrays in the configured format", async () => {
+            const search = async (arrayFormat?: ArrayFormat) => {
+                const api = createFetchio(baseUrl, { arrayFormat });
+                const result = await api
+                    .get("/query")
+                    .param("ids", [1, null, "a,b"])
+                    .json<{ search: string }>();
+                return result.data?.search;
+            };
+
+            expect(await search()).toBe("?ids=1&ids=a%2Cb");
+            expect(await search("comma")).toBe("?ids=1,a%2Cb");
+            expect(await search("brackets")).toBe(
+                "?ids%5B%5D=1&ids%5B%5D=a%2Cb",
+            );
+        });
+
+        it("should merge with the query already in the URL", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api
+                .get("/query?sort=name&page=1#top")
+                .param("page", 3)
+                .json<{ search: string }>();
+
+            expect(result.data?.search).toBe("?sort=name&page=3");
+        });
+    });
+
+    describe("Path templates", () => {
+        it("should fill and encode path params", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api
+                .get("/users/:id/posts/:postId", {
+                    pathParams: { id: 7, postId: "a b/c" },
+                })
+                .json<Record<string, string>>();
+
+            expect(result.data).toEqual({ id: "7", postId: "a b/c" });
+        });
+
+        it("should fill params of paths from path() and the builder", async () => {
+            const api = createFetchio(baseUrl).path("/users/:id");
+
+            const result = await api
+                .get("/posts", { pathParams: { id: "me", postId: 2 } })
+                .path("/:postId")
+                .param("expand", ["author"])
+                .json<Record<string, string>>();
+
+            expect(result.data).toEqual({ id: "me", postId: "2" });
+        });
+
+        it("should only fill the path of absolute URLs", async () => {
+            const api = createFetchio("");
+
+            const result = await api
+                .get("http://localhost:3000/users/:id/posts/:postId?at=:id", {
+                    pathParams: { id: 7, postId: 8 },
+                })
+                .json<Record<string, string>>();
+
+            expect(result.data).toEqual({ id: "7", postId: "8" });
+        });
+
+        it("should check path params at compile time", () => {
+            const api = createFetchio(baseUrl);
+
+            // @ts-expect-error the params of a template are required
+            expect(() => api.get("/users/:id")).not.toThrow();
+            expect(() =>
+                // @ts-expect-error every param of the template is required
+                api.del("/users/:id/posts/:postId", { pathParams: { id: 1 } }),
+            ).not.toThrow();
+            expect(() =>
+                api.get("/users/:id", {
+                    // @ts-expect-error unknown params are rejected
+                    pathParams: { id: 1, other: 2 },
+                }),
+            ).not.toThrow();
+            // The scheme and a host:port are not params
+            expect(() => api.get("https://api.test:8080/users")).not.toThrow();
+            expect(() =>
+                api.get("/files/:id.json", { pathParams: { id: 1 } }),
+            ).not.toThrow();
+        });
+    });
+
+    describe("API contracts", () => {
+        const contract = defineApi({
+            hello: {
+                get: { method: "GET", path: "/hello", response: messageSchema },
+                create: {
+                    method: "POST",
+                    path: "/hello",
+                    body: typed<{ name: string }>(),
+                    response: typed<ApiResponse<{ name: string }>>(),
+                },
+                remove: { method: "DELETE", path: "/hello/world" },
+            },
+            posts: {
+                get: {
+                    method: "GET",
+                    path: "/users/:id/posts/:postId",
+                    response: typed<{ id: string; postId: string }>(),
+                },
+            },
+            search: {
+                method: "GET",
+                path: "/query",
+                query: (value: unknown) => {
+                    const { page } = value as { page?: unknown };
+                    if (typeof page !== "number") throw new Error("No page");
+                    return { page };
+                },
+                response: typed<{ search: string }>(),
+            },
+            headers: {
+                method: "GET",
+                path: "/headers",
+                response: typed<{ headers: Record<string, string> }>(),
+            },
+        });
+
+        it("should create typed methods for every route", async () => {
+            const client = createFetchio(baseUrl, undefined, contract);
+
+            const hello = await client.hello.get();
+            const post = await client.posts.get({ id: 1, postId: "intro" });
+            const removed = await client.hello.remove();
+
+            expect(hello.ok && hello.data.message).toBe("Hello GET");
+            expect(post.ok && post.data).toEqual({ id: "1", postId: "intro" });
+            expect(removed.ok).toBe(true);
+            // @ts-expect-error every path param is required
+            expect(client.posts.get({ id: 1 })).toBeInstanceOf(Promise);
+        });
+
+        it("should send bodies and validated queries", async () => {
+            const client = createFetchio(baseUrl, undefined, contract);
+
+            const created = await client.hello.create({
+                body: { name: "Ada" },
+            });
+            const found = await client.search({ query: { page: 2 } });
+            const invalid = await client.search({
+                // @ts-expect-error the query must match the contract
+                query: { page: "2" },
+            });
+
+            expect(created.ok && created.data.data).toEqual({ name: "Ada" });
+            expect(found.ok && found.data.search).toBe("?page=2");
+            expect(!invalid.ok && invalid.error).toMatchObject({
+                kind: "validation",
+                source: "query",
+            });
+        });
+
+        it("should apply the configuration and per-call options", async () => {
+            const client = createFetchio(
+                baseUrl,
+                {
+                    requestInterceptor: async (url, options) => ({
+                        url,
+                        options: {
+                            ...options,
+                            headers: {
+                                ...options.headers,
+                                "X-Client": "contract",
+                            },
+                        },
+                    }),
+                },
+                contract,
+            );
+
+            const result = await client.headers(undefined, {
+                headers: { "X-Call": "1" },
+            });
+
+            expect(result.ok && result.data.headers["x-client"]).toBe(
+                "contract",
+            );
+            expect(result.ok && result.data.headers["x-call"]).toBe("1");
+        });
+
+        it("should validate responses with the route schema", async () => {
+            const client = createFetchio(
+                baseUrl,
+                undefined,
+                defineApi({
+                    broken: {
+                        method: "GET",
+                        path: "/query",
+                        response: messageSchema,
+                    },
+                }),
+            );
+
+            const result = await client.broken();
+
+            expect(!result.ok && result.error).toMatchObject({
+                kind: "validation",
+                source: "response",
+            });
+        });
     });
 
     describe("Headers", () => {
@@ -435,6 +967,109 @@ describe("Fetchio API", () => {
         });
     });
 
+    describe("Automatic parsing", () => {
+        const transport = createMockTransport()
+            .on("GET /json", { json: { name: "Ada" } })
+            .on("GET /problem", {
+                status: 404,
+                headers: { "Content-Type": "application/problem+json" },
+                body: '{"title":"Not Found"}',
+            })
+            .on("GET /html", {
+                status: 502,
+                headers: { "Content-Type": "text/html" },
+                body: "<h1>Bad Gateway</h1>",
+            })
+            .on("GET /text", {
+                headers: { "Content-Type": "text/plain" },
+                body: "plain",
+            })
+            .on("GET /binary", {
+                headers: { "Content-Type": "image/png" },
+                body: new Uint8Array([1, 2, 3]),
+            })
+            .on("GET /csv", {
+                headers: { "Content-Type": "text/csv; charset=utf-8" },
+                body: "a,b\n1,2",
+            })
+            .on("DELETE /json", { status: 204 });
+        const api = createFetchio("https://api.test", {
+            transport,
+            retry: false,
+        });
+
+        it("should parse responses according to their content type", async () => {
+            expect((await api.get("/json").auto()).data).toEqual({
+                name: "Ada",
+            });
+            expect((await api.get("/text").auto()).data).toBe("plain");
+
+            const binary = await api.get("/binary").auto<Blob>();
+            expect(binary.data).toBeInstanceOf(Blob);
+            expect(binary.data?.size).toBe(3);
+        });
+
+        it("should return null for empty bodies", async () => {
+            expect((await api.del("/json").auto()).data).toBeNull();
+            expect((await api.del("/json").json()).data).toBeNull();
+        });
+
+        it("should parse error bodies according to their content type", async () => {
+            const problem = await api.get("/problem").json();
+            const html = await api.get("/html").json();
+
+            expect(problem.error).toMatchObject({
+                kind: "http",
+                body: { title: "Not Found" },
+            });
+            expect(html.error).toMatchObject({
+                kind: "http",
+                body: "<h1>Bad Gateway</h1>",
+            });
+        });
+
+        it("should decode bodies with the deserializer of the content type", async () => {
+            const csv = api.sub("", {
+                deserializers: {
+                    "text/csv": async (response) =>
+                        (await response.text())
+                            .split("\n")
+                            .map((line) => line.split(",")),
+                },
+            });
+
+            expect((await csv.get("/csv").auto()).data).toEqual([
+                ["a", "b"],
+                ["1", "2"],
+            ]);
+        });
+
+        it("should revive dates, big integers and camelCase keys", async () => {
+            const transport = createMockTransport().on("POST /orders", {
+                headers: { "Content-Type": "application/json" },
+                body: '{"order_id":9007199254740993,"created_at":"2024-05-01T10:00:00Z","line_items":[{"unit_price":1.5}],"note":"2024-05-01"}',
+            });
+            const api = createFetchio("https://api.test", {
+                transport,
+                json: { dates: true, bigint: true, camelCase: true },
+            });
+
+            const result = await api
+                .post("/orders", { customerId: 7, total: 12n })
+                .json();
+
+            expect(result.data).toEqual({
+                orderId: 9007199254740993n,
+                createdAt: new Date("2024-05-01T10:00:00Z"),
+                lineItems: [{ unitPrice: 1.5 }],
+                note: "2024-05-01",
+            });
+            expect(transport.calls[0]?.body).toBe(
+                '{"customer_id":7,"total":12}',
+            );
+        });
+    });
+
     describe("Payload types", () => {
         it("should handle string payload", async () => {
             const api = createFetchio(baseUrl);
@@ -466,6 +1101,146 @@ describe("Fetchio API", () => {
                 field2: "value2",
             });
         });
+
+        it("should send objects as JSON", async () => {
+            const transport = createMockTransport().on({}, { status: 204 });
+            const api = createFetchio("https://api.test", { transport });
+
+            await api.post("/users", { name: "Ada", tags: ["admin"] }).void();
+
+            const [call] = transport.calls;
+            expect(call?.headers["content-type"]).toBe("application/json");
+            expect(call?.headers["name"]).toBeUndefined();
+            expect(JSON.parse(call?.body ?? "")).toEqual({
+                name: "Ada",
+                tags: ["admin"],
+            });
+        });
+
+        it("should keep falsy payloads", async () => {
+            const transport = createMockTransport().on({}, { status: 204 });
+            const api = createFetchio("https://api.test", { transport });
+
+            await api.put("/count", 0).void();
+            await api.put("/enabled", false).void();
+            await api.put("/name", "").void();
+
+            expect(transport.calls.map((call) => call.body)).toEqual([
+                "0",
+                "false",
+                "",
+            ]);
+            expect(transport.calls[2]?.headers["content-type"]).toBe(
+                "text/plain",
+            );
+        });
+
+        it("should send FormData with files as multipart", async () => {
+            const api = createFetchio(baseUrl);
+            const form = new FormData();
+            form.append("title", "Report");
+            form.append("file", new File(["data"], "report.txt"));
+
+            const result = await api.post("/upload", form).json<{
+                contentType: string;
+                parts: Record<string, unknown>;
+            }>();
+
+            expect(result.data?.contentType).toContain("multipart/form-data");
+            expect(result.data?.parts).toEqual({
+                title: "Report",
+                file: { name: "report.txt" },
+            });
+        });
+
+        it("should send binary bodies as they are", async () => {
+            const api = createFetchio(baseUrl);
+            const upload = async (payload: unknown) =>
+                (
+                    await api
+                        .post("/upload", payload)
+                        .json<{ contentType: string; body: string }>()
+                ).data;
+            const bytes = new TextEncoder().encode("bytes");
+
+            expect(
+                await upload(new Blob(["blob"], { type: "text/csv" })),
+            ).toEqual({ contentType: "text/csv", body: "blob" });
+            expect(await upload(bytes.buffer)).toEqual({
+                contentType: "application/octet-stream",
+                body: "bytes",
+            });
+            expect(await upload(bytes)).toEqual({
+                contentType: "application/octet-stream",
+                body: "bytes",
+            });
+            expect(await upload(new URLSearchParams({ q: "a b" }))).toEqual({
+                contentType: "application/x-www-form-urlencoded;charset=UTF-8",
+                body: "q=a+b",
+            });
+            expect(await upload(new Blob(["stream"]).stream())).toEqual({
+                contentType: "application/octet-stream",
+                body: "stream",
+            });
+        });
+
+        it("should fail without sending payloads that cannot be serialized", async () => {
+            const transport = createMockTransport().on({}, { status: 204 });
+            const api = createFetchio("https://api.test", {
+                transport,
+                serializers: {
+                    "application/x-lines": () => {
+                        throw new Error("Not lines");
+                    },
+                },
+            });
+
+            const bigint = await api.post("/ids", { id: 1n }).json();
+            const custom = await api
+                .post("/lines", ["a"])
+                .header("Content-Type", "application/x-lines")
+                .json();
+
+            expect(bigint.error?.kind).toBe("serialize");
+            expect(custom.error).toEqual({
+                kind: "serialize",
+                cause: new Error("Not lines"),
+            });
+            expect(transport.calls).toHaveLength(0);
+        });
+
+        it("should encode payloads with the serializer of the content type", async () => {
+            const transport = createMockTransport().on({}, { status: 204 });
+            const api = createFetchio("https://api.test", {
+                transport,
+                serializers: {
+                    "application/x-lines": (payload) =>
+                        (payload as string[]).join("\n"),
+                },
+            });
+
+            await api
+                .post("/lines", ["a", "b"])
+                .header("Content-Type", "application/x-lines; charset=utf-8")
+                .void();
+            await api
+                .patch("/users/1", { name: "Ada" })
+                .header("Content-Type", "application/merge-patch+json")
+                .void();
+            await api
+                .post("/form", { name: "Ada", age: 36 })
+                .header("Content-Type", "application/x-www-form-urlencoded")
+                .void();
+
+            expect(transport.calls.map((call) => call.body)).toEqual([
+                "a\nb",
+                '{"name":"Ada"}',
+                "name=Ada&age=36",
+            ]);
+            expect(transport.calls[1]?.headers["content-type"]).toBe(
+                "application/merge-patch+json",
+            );
+        });
     });
 
     describe("Error handling", () => {
@@ -487,46 +1262,2773 @@ describe("Fetchio API", () => {
         });
     });
 
-    describe("Interceptors", () => {
-        it("should use request interceptors", async () => {
-            const requestInterceptor = mock((url, options) => {
-                return Promise.resolve({
-                    url: url,
-                    options: {
-                        ...options,
-                        headers: { ...options.headers, "X-Test": "test-value" },
-                    },
-                });
-            });
+    describe("Result details", () => {
+        it("should expose status and headers on success", async () => {
+            const api = createFetchio(baseUrl);
 
-            const api = createFetchio(baseUrl, { requestInterceptor });
-            await api.get("/hello").json();
+            const result = await api.get("/hello").json<ApiResponse>();
 
-            expect(requestInterceptor).toHaveBeenCalled();
-            expect(requestInterceptor.mock.calls[0][0]).toBe(
-                "http://localhost:3000/hello",
+            expect(result.ok).toBe(true);
+            if (!result.ok) return;
+            expect(result.status).toBe(200);
+            expect(result.headers.get("content-type")).toContain(
+                "application/json",
             );
+            expect(result.data.message).toBe("Hello GET");
         });
 
-        it("should use response interceptors", async () => {
-            const responseInterceptor = mock((response) => {
-                return Promise.resolve({
-                    success: response.status === 200,
-                    data: { intercepted: true },
-                });
+        it("should describe HTTP errors with the parsed body", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api.get("/error/validation").json();
+
+            expect(result.ok).toBe(false);
+            if (result.ok) return;
+            expect(result.status).toBe(422);
+            expect(result.error).toEqual({
+                kind: "http",
+                status: 422,
+                statusText: "Unprocessable Entity",
+                body: { message: "Invalid name" },
             });
+        });
 
-            const api = createFetchio("/", {
-                requestInterceptor: async (url, options) => {
-                    return { url: `${baseUrl}${url}`, options };
-                },
-                responseInterceptor,
+        it("should not throw on non-JSON error bodies", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api.get("/error/not-found").json();
+
+            expect(result.ok).toBe(false);
+            if (result.ok) return;
+            expect(result.error.kind).toBe("http");
+            expect(result.data).toBe("Not Found");
+        });
+
+        it("should report parse failures", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api.get("/invalid-json").json();
+
+            expect(result.ok).toBe(false);
+            if (result.ok) return;
+            expect(result.status).toBe(200);
+            expect(result.error.kind).toBe("parse");
+        });
+
+        it("should report network failures", async () => {
+            const api = createFetchio("http://localhost:1");
+
+            const result = await api.get("/").json();
+
+            expect(result.ok).toBe(false);
+            if (result.ok) return;
+            expect(result.error.kind).toBe("network");
+        });
+
+        it("should convert legacy interceptor results", async () => {
+            const api = createFetchio(baseUrl, {
+                responseInterceptor: async (response) => ({
+                    success: response.ok,
+                    data: "legacy",
+                }),
             });
 
-            const result = await api.get("/hello").json();
+            const result = await api.get("/error/forbidden").string();
 
-            expect(responseInterceptor).toHaveBeenCalled();
-            expect(result.data).toEqual({ intercepted: true });
+            expect(result.ok).toBe(false);
+            if (result.ok) return;
+            expect(result.status).toBe(403);
+            expect(result.error.kind).toBe("http");
+            expect(result.data).toBe("legacy");
         });
     });
-});
+
+    describe("Schema validation", () => {
+        it("should validate responses with a Standard Schema", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api.get("/hello").json(messageSchema);
+
+            expect(result.ok).toBe(true);
+            expect(result.data).toEqual({ message: "Hello GET" });
+        });
+
+        it("should report validation issues with their paths", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api.get("/query").json(messageSchema);
+
+            expect(result.ok).toBe(false);
+            if (result.ok) return;
+            expect(result.status).toBe(200);
+            expect(result.error).toEqual({
+                kind: "validation",
+                source: "response",
+                issues: [{ message: "Expected a string", path: ["message"] }],
+            });
+        });
+
+        it("should validate responses with a parse function", async () => {
+            const api = createFetchio(baseUrl);
+            const parse = (value: unknown) => {
+                if (!Array.isArray(value)) throw new Error("Expected an array");
+                return value;
+            };
+
+            const result = await api.get("/hello").json(parse);
+
+            expect(result.ok).toBe(false);
+            if (result.ok) return;
+            expect(result.error).toEqual({
+                kind: "validation",
+                source: "response",
+                issues: [{ message: "Expected an array", path: [] }],
+            });
+        });
+
+        it("should validate request bodies before sending", async () => {
+            const requestInterceptor = mock((url, options) =>
+                Promise.resolve({ url, options }),
+            );
+            const api = createFetchio(baseUrl, { requestInterceptor });
+
+            const invalid = await api
+                // @ts-expect-error the body is also checked at runtime
+                .post("/hello", { message: 1 }, { bodySchema: messageSchema })
+                .json();
+            expect(invalid.ok).toBe(false);
+            if (!invalid.ok) expect(invalid.error.kind).toBe("validation");
+            expect(requestInterceptor).not.toHaveBeenCalled();
+
+            const valid = await api
+                .post(
+                    "/hello",
+                    { message: "hi" },
+                    { bodySchema: messageSchema },
+                )
+                .json<ApiResponse>();
+            expect(valid.ok).toBe(true);
+            expect(valid.data?.data).toEqual({ message: "hi" });
+        });
+    });
+
+    describe("HTTP cache", () => {
+        it("should serve fresh responses from the cache", async () => {
+            const api = createFetchio(baseUrl, { httpCache: true });
+            const request = () =>
+                api
+                    .get("/cached")
+                    .params({ id: "fresh", maxAge: "60" })
+                    .json<{ count: number }>();
+
+            const first = await request();
+            const second = await request();
+
+            expect(first.data?.count).toBe(1);
+            expect(second.data?.count).toBe(1);
+            expect(callCounts.get("fresh")).toBe(1);
+        });
+
+        it("should revalidate stale responses with the ETag", async () => {
+            const api = createFetchio(baseUrl, { httpCache: true });
+            const request = () =>
+                api
+                    .get("/cached")
+                    .params({ id: "stale", maxAge: "0" })
+                    .json<{ count: number }>();
+
+            await request();
+            const revalidated = await request();
+
+            expect(revalidated.ok).toBe(true);
+            expect(revalidated.status).toBe(200);
+            // The second call answered 304 and the cached body was used
+            expect(revalidated.data?.count).toBe(1);
+            expect(callCounts.get("stale")).toBe(2);
+        });
+
+        it("should share the cache with sub instances", async () => {
+            const api = createFetchio(baseUrl, { httpCache: true });
+
+            await api
+                .get("/cached")
+                .params({ id: "shared", maxAge: "60" })
+                .json();
+            await api
+                .sub("/cached")
+                .get()
+                .params({ id: "shared", maxAge: "60" })
+                .json();
+
+            expect(callCounts.get("shared")).toBe(1);
+        });
+
+        it("should apply per-request cache modes", async () => {
+            const store = createMemoryCache();
+            const api = createFetchio(baseUrl, { httpCache: { store } });
+            const request = () =>
+                api.get("/cached").params({ id: "modes", maxAge: "60" });
+
+            const missing = await request().cache("only-if-cached").json();
+            expect(missing.ok).toBe(false);
+            expect(missing.status).toBe(504);
+
+            await request().json();
+            await request().cache("no-cache").json();
+            await request().cache("reload").json();
+            await request().cache("no-store").json();
+            const forced = await request()
+                .cache("force-cache")
+                .json<{ count: number }>();
+
+            expect(callCounts.get("modes")).toBe(4);
+            expect(forced.data?.count).toBe(3);
+        });
+
+        it("should only reuse responses for the same Vary headers", async () => {
+            const api = createFetchio(baseUrl, { httpCache: true });
+            const request = (language: string) =>
+                api
+                    .get("/cached")
+                    .params({
+                        id: "vary",
+                        cacheControl: "public, max-age=60",
+                        vary: "Accept-Language",
+                    })
+                    .header("Accept-Language", language)
+                    .json<{ count: number }>();
+
+            const english = await request("en");
+            const french = await request("fr");
+            const french2 = await request("fr");
+
+            expect(english.data?.count).toBe(1);
+            expect(french.data?.count).toBe(2);
+            expect(french2.data?.count).toBe(2);
+        });
+
+        it("should not share responses between credentials", async () => {
+            const api = createFetchio(baseUrl, { httpCache: true });
+            const request = (user: string, vary?: string) =>
+                api
+                    .get("/cached")
+                    .params({
+                        id: `private-${vary}`,
+                        maxAge: "60",
+                        ...(vary && { vary }),
+                    })
+                    .header("Authorization", `Bearer ${user}`)
+                    .json<{ count: number; user: string }>();
+
+            for (const vary of ["Authorization", undefined]) {
+                const alice = await request("alice", vary);
+                const bob = await request("bob", vary);
+                const again = await request("alice", vary);
+
+                expect(alice.data?.user).toBe("Bearer alice");
+                expect(bob.data?.user).toBe("Bearer bob");
+                expect(again.data).toEqual(alice.data);
+                expect(callCounts.get(`private-${vary}`)).toBe(2);
+            }
+        });
+
+        it("should share public responses between credentials", async () => {
+            const api = createFetchio(baseUrl, { httpCache: true });
+            const request = (user: string) =>
+                api
+                    .get("/cached")
+                    .params({ id: "public", cacheControl: "public, max-age=60" })
+                    .header("Authorization", `Bearer ${user}`)
+                    .json();
+
+            await request("alice");
+            await request("bob");
+
+            expect(callCounts.get("public")).toBe(1);
+        });
+
+        it("should not store responses varying on everything", async () => {
+            const api = createFetchio(baseUrl, { httpCache: true });
+            const request = () =>
+                api
+                    .get("/cached")
+                    .params({ id: "vary-all", maxAge: "60", vary: "*" })
+                    .json();
+
+            await request();
+            await request();
+
+            expect(callCounts.get("vary-all")).toBe(2);
+        });
+
+        it("should not cache without httpCache", async () => {
+            const api = createFetchio(baseUrl);
+
+            await api
+                .get("/cached")
+                .params({ id: "disabled", maxAge: "60" })
+                .json();
+            await api
+                .get("/cached")
+                .params({ id: "disabled", maxAge: "60" })
+                .json();
+
+            expect(callCounts.get("disabled")).toBe(2);
+        });
+
+        it("should stream responses while storing them", async () => {
+            const encoder = new TextEncoder();
+            let feed!: ReadableStreamDefaultController<Uint8Array>;
+            const body = new ReadableStream<Uint8Array>({
+                start: (controller) => {
+                    feed = controller;
+                },
+            });
+            const transport = mock(
+                async () =>
+                    new Response(body, {
+                        headers: { "Cache-Control": "max-age=60" },
+                    }),
+            );
+            const api = createFetchio("https://api.test", {
+                transport,
+                httpCache: true,
+            });
+
+            const lines = api.get("/feed").lines()[Symbol.asyncIterator]();
+            feed.enqueue(encoder.encode("first\n"));
+            expect((await lines.next()).value).toBe("first");
+
+            feed.enqueue(encoder.encode("second\n"));
+            feed.close();
+            expect((await lines.next()).value).toBe("second");
+            expect((await lines.next()).done).toBe(true);
+
+            const cached = await api.get("/feed").string();
+            expect(cached.data).toBe("first\nsecond\n");
+            expect(transport).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not store bodies larger than maxEntrySize", async () => {
+            const transport = createMockTransport().on("GET /large", {
+                headers: { "Cache-Control": "max-age=60" },
+                body: "a".repeat(2048),
+            });
+            const api = createFetchio("https://api.test", {
+                transport,
+                httpCache: { maxEntrySize: 1024 },
+            });
+
+            await api.get("/large").string();
+            const second = await api.get("/large").string();
+
+            expect(second.data).toHaveLength(2048);
+            expect(transport.calls).toHaveLength(2);
+        });
+    });
+
+    describe("Request deduplication", () => {
+        it("should share one fetch between identical GETs", async () => {
+            const api = createFetchio(baseUrl, { dedupe: true });
+            const request = () =>
+                api
+                    .get("/slow")
+                    .params({ id: "dedupe", delay: "20" })
+                    .json<ApiResponse>();
+
+            const results = await Promise.all([
+                request(),
+                request(),
+                request(),
+            ]);
+
+            expect(callCounts.get("dedupe")).toBe(1);
+            for (const result of results) {
+                expect(result.ok).toBe(true);
+                expect(result.data?.message).toBe("Slow GET");
+            }
+        });
+
+        it("should not share requests with different headers", async () => {
+            const api = createFetchio(baseUrl, { dedupe: true });
+            const request = (value: string) =>
+                api
+                    .get("/slow")
+                    .params({ id: "dedupe-headers", delay: "20" })
+                    .header("X-Variant", value)
+                    .json();
+
+            await Promise.all([request("a"), request("b")]);
+
+            expect(callCounts.get("dedupe-headers")).toBe(2);
+        });
+
+        it("should not share requests sent with other credentials or interceptors", async () => {
+            const transport = createMockTransport().on("GET /me", (call) => ({
+                delay: 20,
+                json: call.headers["authorization"] ?? "anonymous",
+            }));
+            const api = createFetchio("https://api.test", {
+                transport,
+                dedupe: true,
+                auth: { getToken: () => "secret" },
+            });
+
+            const [user, anonymous, intercepted] = await Promise.all([
+                api.get("/me").json(),
+                api.get("/me").auth(false).json(),
+                api
+                    .get("/me", {
+                        requestInterceptor: async (url, options) => ({
+                            url,
+                            options,
+                        }),
+                    })
+                    .json(),
+            ]);
+
+            expect(user.data).toBe("Bearer secret");
+            expect(anonymous.data).toBe("anonymous");
+            expect(intercepted.data).toBe("Bearer secret");
+            expect(transport.calls).toHaveLength(3);
+        });
+
+        it("should not deduplicate by default", async () => {
+            const api = createFetchio(baseUrl);
+            const request = () =>
+                api
+                    .get("/slow")
+                    .params({ id: "no-dedupe", delay: "20" })
+                    .json();
+
+            await Promise.all([request(), request()]);
+
+            expect(callCounts.get("no-dedupe")).toBe(2);
+        });
+
+        it("should keep the shared fetch when one caller aborts", async () => {
+            const api = createFetchio(baseUrl, { dedupe: true });
+            const controller = new AbortController();
+            const request = () =>
+                api.get("/slow").params({ id: "dedupe-abort", delay: "50" });
+
+            const aborted = request().signal(controller.signal).json();
+            const kept = request().json<ApiResponse>();
+            setTimeout(() => controller.abort(), 10);
+
+            const [abortedResult, keptResult] = await Promise.all([
+                aborted,
+                kept,
+            ]);
+
+            expect(abortedResult.error?.kind).toBe("abort");
+            expect(keptResult.ok).toBe(true);
+            expect(keptResult.data?.message).toBe("Slow GET");
+            expect(callCounts.get("dedupe-abort")).toBe(1);
+        });
+    });
+
+    describe("Transport", () => {
+        it("should send requests through a custom transport", async () => {
+            const requests: Request[] = [];
+            const api = createFetchio(baseUrl, {
+                transport: (request) => {
+                    requests.push(request);
+                    return fetch(request);
+                },
+            });
+
+            const result = await api
+                .post("/hello", "text")
+                .header("X-Test", "1")
+                .json<ApiResponse>();
+
+            expect(result.data?.message).toBe("Hello POST");
+            expect(requests).toHaveLength(1);
+            expect(requests[0]?.method).toBe("POST");
+            expect(requests[0]?.headers.get("x-test")).toBe("1");
+        });
+
+        it("should time out a delayed mock reply", async () => {
+            const transport = createMockTransport().on("GET /slow", {
+                json: "late",
+                delay: 300,
+            });
+            const api = createFetchio("https://api.test", { transport });
+            const started = Date.now();
+
+            const result = await api.get("/slow").timeout(50).json();
+
+            expect(result.error?.kind).toBe("timeout");
+            expect(Date.now() - started).toBeLessThan(250);
+        });
+
+        it("should time out transports ignoring the signal", async () => {
+            const api = createFetchio("https://api.test", {
+                transport: () =>
+                    new Promise((resolve) =>
+                        setTimeout(() => resolve(new Response("late")), 300),
+                    ),
+            });
+            const started = Date.now();
+
+            const result = await api.get("/slow").timeout(50).void();
+
+            expect(result.error?.kind).toBe("timeout");
+            expect(Date.now() - started).toBeLessThan(250);
+        });
+
+        it("should answer from routes matched by method, path, query and body", async () => {
+            const transport = createMockTransport()
+                .on("GET /users/:id", (call) => ({
+                    json: { id: call.params["id"] },
+                }))
+                .on(
+                    { method: "GET", path: "/users", query: { page: "2" } },
+                    { json: ["page 2"] },
+                )
+                .on(
+                    { method: "POST", path: "/users", body: { name: "Ada" } },
+                    { status: 201, json: { created: true } },
+                );
+            const api = createFetchio("https://api.test", { transport });
+
+            const user = await api.get("/users/7").json<{ id: string }>();
+            const page = await api.get("/users").param("page", 2).json();
+            const created = await api
+                .post("/users", JSON.stringify({ name: "Ada", age: 36 }))
+                .json();
+
+            expect(user.data).toEqual({ id: "7" });
+            expect(page.data).toEqual(["page 2"]);
+            expect(created.status).toBe(201);
+            transport.assertCalled("GET /users/:id", 1);
+            transport.assertCalled({ body: { name: "Ada" } });
+            expect(() => transport.assertCalled("DELETE /users/:id")).toThrow(
+                "to be called at least once, got 0",
+            );
+            expect(transport.calls.map((call) => call.path)).toEqual([
+                "/users/7",
+                "/users",
+                "/users",
+            ]);
+        });
+
+        it("should use limited routes up before falling through", async () => {
+            const transport = createMockTransport()
+                .on("GET /flaky", { json: "fallback" })
+                .on("GET /flaky", { status: 503 }, 1);
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: { delay: 1 },
+            });
+
+            const result = await api.get("/flaky").json<string>();
+
+            expect(result.data).toBe("fallback");
+            expect(result.attempts).toBe(2);
+            expect(() => transport.assertDone()).not.toThrow();
+
+            transport.on("GET /never", { status: 200 }, 1);
+            expect(() => transport.assertDone()).toThrow("GET /never");
+        });
+
+        it("should fail unmatched requests with a network error", async () => {
+            const api = createFetchio("https://api.test", {
+                transport: createMockTransport(),
+                retry: false,
+            });
+
+            const result = await api.get("/missing").json();
+
+            expect(result.error?.kind).toBe("network");
+        });
+
+        it("should record exchanges and replay them", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "fetchio-"));
+            try {
+                const fs = createNodeFileSystem(directory);
+                const recorder = createMockTransport({ mode: "record", fs });
+                const recording = createFetchio(baseUrl, {
+                    transport: recorder,
+                });
+
+                await recording.get("/hello").json();
+                await recording.get("/large").bytes();
+                await recorder.save();
+
+                const player = createMockTransport({ mode: "replay", fs });
+                const replaying = createFetchio(baseUrl, {
+                    transport: player,
+                    retry: false,
+                });
+
+                const hello = await replaying.get("/hello").json<ApiResponse>();
+                const large = await replaying.get("/large").bytes();
+                const missing = await replaying.get("/query").json();
+
+                expect(hello.data?.message).toBe("Hello GET");
+                expect(large.data?.byteLength).toBe(256 * 1024);
+                expect(missing.error?.kind).toBe("network");
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+            }
+        });
+
+        it("should record streams without holding them back", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "fetchio-"));
+            try {
+                let feed!: ReadableStreamDefaultController<Uint8Array>;
+                const body = new ReadableStream<Uint8Array>({
+                    start: (controller) => {
+                        feed = controller;
+                    },
+                });
+                const recorder = createMockTransport({
+                    mode: "record",
+                    fs: createNodeFileSystem(directory),
+                    transport: async () => new Response(body),
+                });
+                const api = createFetchio("https://api.test", {
+                    transport: recorder,
+                });
+
+                const events = api.get("/events").lines();
+                const lines = events[Symbol.asyncIterator]();
+                feed.enqueue(new TextEncoder().encode("first\n"));
+                expect((await lines.next()).value).toBe("first");
+
+                feed.close();
+                await recorder.save();
+                const fixture = JSON.parse(
+                    await readFile(
+                        join(directory, "fetchio-fixture.json"),
+                        "utf8",
+                    ),
+                );
+                expect(fixture[0].response.body).toBe("first\n");
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe("Limits", () => {
+        // Transport answering after a delay, tracking the requests in flight
+        const tracked = (delay = 20, headers: Record<string, string> = {}) => {
+            const stats = { active: 0, max: 0, order: [] as string[] };
+            const transport = createMockTransport().on(
+                "/:name",
+                async (call) => {
+                    stats.order.push(call.params["name"] ?? "");
+                    stats.max = Math.max(stats.max, ++stats.active);
+                    await Bun.sleep(delay);
+                    stats.active--;
+                    return { json: call.params["name"], headers };
+                },
+            );
+            return { stats, transport };
+        };
+
+        it("should limit the requests in flight", async () => {
+            const { stats, transport } = tracked();
+            const api = createFetchio("https://api.test", {
+                transport,
+                limits: { concurrency: 2 },
+            });
+
+            const results = await Promise.all(
+                [1, 2, 3, 4, 5, 6].map((n) => api.get(`/${n}`).json()),
+            );
+
+            expect(results.every((result) => result.ok)).toBe(true);
+            expect(stats.max).toBe(2);
+        });
+
+        it("should spread requests over the rate interval", async () => {
+            const { transport } = tracked(0);
+            const api = createFetchio("https://api.test", {
+                transport,
+                limits: { rate: { requests: 2, interval: 100 } },
+            });
+
+            const start = performance.now();
+            await Promise.all([1, 2, 3, 4].map((n) => api.get(`/${n}`).void()));
+
+            expect(performance.now() - start).toBeGreaterThanOrEqual(90);
+        });
+
+        it("should send queued requests by priority", async () => {
+            const { stats, transport } = tracked();
+            const api = createFetchio("https://api.test", {
+                transport,
+                limits: { concurrency: 1 },
+            });
+
+            await Promise.all([
+                api.get("/first").void(),
+                api.get("/low").void(),
+                api.get("/high").priority(10).void(),
+                api.get("/normal").priority(1).void(),
+            ]);
+
+            expect(stats.order).toEqual(["first", "high", "normal", "low"]);
+        });
+
+        it("should reject requests when the queue is full", async () => {
+            const { transport } = tracked();
+            const api = createFetchio("https://api.test", {
+                transport,
+                limits: { concurrency: 1, maxQueue: 1 },
+            });
+
+            const results = await Promise.all(
+                [1, 2, 3].map((n) => api.get(`/${n}`).void()),
+            );
+
+            expect(results.map((result) => result.ok)).toEqual([
+                true,
+                true,
+                false,
+            ]);
+            expect(results[2]?.error).toEqual({
+                kind: "queue-full",
+                maxQueue: 1,
+            });
+        });
+
+        it("should remove aborted requests from the queue", async () => {
+            const { stats, transport } = tracked();
+            const api = createFetchio("https://api.test", {
+                transport,
+                limits: { concurrency: 1 },
+            });
+            const controller = new AbortController();
+
+            const pending = Promise.all([
+                api.get("/first").void(),
+                api.get("/aborted").signal(controller.signal).void(),
+                api.get("/last").void(),
+            ]);
+            controller.abort();
+            const results = await pending;
+
+            expect(results[1]?.error?.kind).toBe("abort");
+            expect(stats.order).toEqual(["first", "last"]);
+        });
+
+        it("should share the limiter with sub-instances unless they set their own", async () => {
+            const { stats, transport } = tracked();
+            const api = createFetchio("https://api.test", {
+                transport,
+                limits: { concurrency: 1 },
+            });
+
+            await Promise.all([
+                api.get("/a").void(),
+                api.sub("").get("/b").void(),
+            ]);
+            expect(stats.max).toBe(1);
+
+            stats.max = 0;
+            await Promise.all([
+                api.get("/a").void(),
+                api
+                    .sub("", { limits: { concurrency: 5 } })
+                    .get("/b")
+                    .void(),
+                api.sub("", { limits: false }).get("/c").void(),
+            ]);
+            expect(stats.max).toBe(3);
+        });
+
+        it("should pause when the rate limit is exhausted", async () => {
+            const { transport } = tracked(0, {
+                "RateLimit-Remaining": "0",
+                "RateLimit-Reset": "0.1",
+            });
+            const api = createFetchio("https://api.test", {
+                transport,
+                limits: { concurrency: 10 },
+            });
+
+            await api.get("/first").void();
+            const start = performance.now();
+            await api.get("/second").void();
+
+            expect(performance.now() - start).toBeGreaterThanOrEqual(90);
+        });
+    });
+
+    describe("Idempotency", () => {
+        it("should keep the same key across retries", async () => {
+            const transport = createMockTransport()
+                .on("POST /charges", { status: 201, json: {} })
+                .on("POST /charges", { status: 503 }, 2);
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: { delay: 1 },
+                idempotency: true,
+            });
+
+            const result = await api.post("/charges", { amount: 10 }).json();
+            await api.post("/charges", { amount: 10 }).json();
+
+            const keys = transport.calls.map(
+                (call) => call.headers["idempotency-key"],
+            );
+            expect(result.status).toBe(201);
+            expect(result.attempts).toBe(3);
+            expect(keys[0]).toMatch(/^[\da-f-]{36}$/);
+            expect(new Set(keys.slice(0, 3)).size).toBe(1);
+            expect(keys[3]).not.toBe(keys[0]);
+        });
+
+        it("should only send keys with the configured methods", async () => {
+            const transport = createMockTransport().on({}, { status: 204 });
+            let count = 0;
+            const api = createFetchio("https://api.test", {
+                transport,
+                idempotency: {
+                    header: "X-Request-Key",
+                    generateKey: () => `key-${++count}`,
+                },
+            });
+
+            await api.post("/orders", {}).void();
+            await api.put("/orders/1", {}).void();
+            await api.put("/orders/2", {}).idempotency("custom").void();
+            await api.post("/orders", {}).idempotency(false).void();
+
+            expect(
+                transport.calls.map((call) => call.headers["x-request-key"]),
+            ).toEqual(["key-1", undefined, "custom", undefined]);
+        });
+
+        it("should reuse the key of duplicate requests within the window", async () => {
+            const transport = createMockTransport().on({}, { status: 204 });
+            const api = createFetchio("https://api.test", {
+                transport,
+                idempotency: { window: 50 },
+            });
+
+            await api.post("/charges", { amount: 10 }).void();
+            await api.post("/charges", { amount: 10 }).void();
+            await api.post("/charges", { amount: 20 }).void();
+            await Bun.sleep(60);
+            await api.post("/charges", { amount: 10 }).void();
+
+            const [first, duplicate, other, later] = transport.calls.map(
+                (call) => call.headers["idempotency-key"],
+            );
+            expect(duplicate).toBe(first);
+            expect(other).not.toBe(first);
+            expect(later).not.toBe(first);
+        });
+    });
+
+    describe("Offline queue", () => {
+        // Transport failing on the network while offline
+        const network = () => {
+            const state = { online: false };
+            const mock = createMockTransport().on({}, (call) => ({
+                status: 201,
+                json: { method: call.method, body: call.body },
+            }));
+            const transport = async (request: Request) => {
+                if (!state.online) throw new TypeError("Network is down");
+                return mock(request);
+            };
+            return { state, mock, transport };
+        };
+
+        it("should queue mutations failing on the network and replay them in order", async () => {
+            const { state, mock, transport } = network();
+            const api = createFetchio("https://api.test", {
+                transport,
+                offline: {},
+            });
+
+            const created = await api.post("/notes", { text: "first" }).json();
+            const removed = await api.del("/notes/1").json();
+            const read = await api.get("/notes").json();
+
+            expect(created.ok).toBe(false);
+            expect(created.error).toMatchObject({
+                kind: "queued",
+                cause: expect.any(TypeError),
+            });
+            expect(removed.error?.kind).toBe("queued");
+            expect(read.error?.kind).toBe("network");
+            expect(read.ok ? undefined : read.queued).toBeUndefined();
+
+            state.online = true;
+            await api.flush();
+
+            expect(mock.calls.map((call) => call.method)).toEqual([
+                "POST",
+                "DELETE",
+            ]);
+            const replayed = await (created.ok ? undefined : created.queued);
+            expect(replayed?.ok).toBe(true);
+            expect(replayed?.data).toEqual({
+                method: "POST",
+                body: '{"text":"first"}',
+            });
+        });
+
+        it("should send queued mutations before new ones", async () => {
+            const { state, mock, transport } = network();
+            const api = createFetchio("https://api.test", {
+                transport,
+                offline: {},
+            });
+
+            await api.put("/notes/1", "queued").void();
+            state.online = true;
+            const result = await api.put("/notes/1", "latest").void();
+
+            expect(result.ok).toBe(true);
+            expect(mock.calls.map((call) => call.body)).toEqual([
+                "queued",
+                "latest",
+            ]);
+        });
+
+        it("should queue new mutations behind those still waiting after a flush", async () => {
+            const { state, mock, transport } = network();
+            // Only replays fail, new requests reach the server
+            const queue = createOfflineQueue({ transport });
+            const api = createFetchio("https://api.test", {
+                transport: mock,
+                offline: queue,
+            });
+
+            await queue.enqueue({
+                method: "PUT",
+                url: "https://api.test/notes/1",
+                headers: {},
+                body: "first",
+            });
+            const result = await api.put("/notes/1", "second").void();
+
+            expect(result.error?.kind).toBe("queued");
+            expect(mock.calls).toHaveLength(0);
+
+            state.online = true;
+            await queue.flush();
+
+            expect(mock.calls.map((call) => call.body)).toEqual([
+                "first",
+                "second",
+            ]);
+            expect(
+                (await (result.ok ? undefined : result.queued))?.ok,
+            ).toBe(true);
+        });
+
+        it("should fail mutations whose replay throws and go on with the others", async () => {
+            const { state, mock, transport } = network();
+            const queue = createOfflineQueue({
+                transport: async (request) =>
+                    request.method === "PATCH"
+                        ? new Response(null, { status: 409 })
+                        : transport(request),
+                onConflict: () => {
+                    throw new Error("Cannot merge");
+                },
+            });
+            const api = createFetchio("https://api.test", {
+                transport,
+                offline: queue,
+            });
+
+            const edited = await api.patch("/notes/1", "edited").void();
+            const created = await api.post("/notes", "created").void();
+            state.online = true;
+            await queue.flush();
+
+            const replayed = await (edited.ok ? undefined : edited.queued);
+            expect(replayed?.error).toEqual({
+                kind: "replay",
+                cause: new Error("Cannot merge"),
+            });
+            expect(
+                (await (created.ok ? undefined : created.queued))?.ok,
+            ).toBe(true);
+            expect(await queue.pending()).toEqual([]);
+            expect((await api.post("/notes", "new").void()).ok).toBe(true);
+            expect(mock.calls.map((call) => call.body)).toEqual([
+                "created",
+                "new",
+            ]);
+        });
+
+        it("should bound the flush by the timeout of the request", async () => {
+            const queue = createOfflineQueue({
+                transport: () => new Promise<Response>(() => {}),
+            });
+            const api = createFetchio("https://api.test", {
+                transport: createMockTransport().on({}, { status: 201 }),
+                offline: queue,
+            });
+            await queue.enqueue({
+                method: "POST",
+                url: "https://api.test/a",
+                headers: {},
+            });
+
+            const result = await api.post("/b").timeout(50).void();
+
+            expect(result.error).toEqual({ kind: "timeout", timeout: 50 });
+        });
+
+        it("should store the queue through the file system adapter", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "fetchio-"));
+            try {
+                const fs = createNodeFileSystem(directory);
+                const { state, mock, transport } = network();
+                const api = createFetchio("https://api.test", {
+                    transport,
+                    fs,
+                    offline: { filename: "queue.json" },
+                });
+
+                await api
+                    .post("/photos", new Uint8Array([1, 2, 3]))
+                    .header("X-Device", "field-7")
+                    .void();
+
+                const stored = JSON.parse(
+                    await readFile(join(directory, "queue.json"), "utf8"),
+                );
+                expect(stored).toMatchObject([
+                    {
+                        method: "POST",
+                        url: "https://api.test/photos",
+                        headers: { "x-device": "field-7" },
+                        body: "AQID",
+                        encoding: "base64",
+                    },
+                ]);
+
+                // A new queue, as after a restart, replays what was stored
+                state.online = true;
+                const queue = createOfflineQueue({
+                    fs: createNodeFileSystem(directory),
+                    filename: "queue.json",
+                    transport,
+                });
+                await queue.flush();
+
+                expect(await queue.pending()).toEqual([]);
+                expect(mock.calls[0]?.headers["x-device"]).toBe("field-7");
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+            }
+        });
+
+        it("should not let two queues use the same file", async () => {
+            const fs = createNodeFileSystem(tmpdir());
+            createFetchio("https://api.test", { fs, offline: {} });
+
+            expect(() =>
+                createFetchio("https://api.test", { fs, offline: {} }),
+            ).toThrow("already used by another queue");
+            expect(() =>
+                createOfflineQueue({ fs, filename: "other.json" }),
+            ).not.toThrow();
+        });
+
+        it("should resolve conflicts of replayed mutations", async () => {
+            const { state, transport } = network();
+            const conflicts: number[] = [];
+            const queue = createOfflineQueue({
+                transport: async (request) =>
+                    request.headers.get("If-Match") === "v2"
+                        ? transport(request)
+                        : new Response(null, { status: 412 }),
+                onConflict: (mutation, response) => {
+                    conflicts.push(response.status);
+                    return {
+                        ...mutation,
+                        headers: { ...mutation.headers, "if-match": "v2" },
+                    };
+                },
+            });
+            const api = createFetchio("https://api.test", {
+                transport,
+                offline: queue,
+            });
+
+            const result = await api
+                .patch("/notes/1", { text: "edited" })
+                .header("If-Match", "v1")
+                .json();
+            state.online = true;
+            await queue.flush();
+
+            expect(conflicts).toEqual([412]);
+            expect(
+                (await (result.ok ? undefined : result.queued))?.status,
+            ).toBe(201);
+        });
+    });
+
+    describe("Circuit breaker", () => {
+        it("should fail fast while the circuit is open and recover after the cooldown", async () => {
+            const events: CircuitEvent[] = [];
+            const transport = createMockTransport()
+                .on("GET /status", { json: "up" })
+                .on("GET /status", { status: 503 }, 3);
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: false,
+                breaker: {
+                    failures: 3,
+                    cooldown: 30,
+                    onStateChange: (event) => events.push(event),
+                },
+            });
+
+            for (let i = 0; i < 3; i++) await api.get("/status").void();
+            const failed = await api.get("/status").json();
+
+            expect(failed.ok).toBe(false);
+            expect(failed.error).toEqual({
+                kind: "circuit-open",
+                key: "https://api.test",
+                retryAt: expect.any(Number),
+            });
+            expect(transport.calls).toHaveLength(3);
+
+            await Bun.sleep(40);
+            const recovered = await api.get("/status").json();
+
+            expect(recovered.data).toBe("up");
+            expect(events).toEqual([
+                { key: "https://api.test", from: "closed", to: "open" },
+                { key: "https://api.test", from: "open", to: "half-open" },
+                { key: "https://api.test", from: "half-open", to: "closed" },
+            ]);
+        });
+
+        it("should reopen the circuit when a trial request fails", async () => {
+            const transport = createMockTransport().on("GET /status", {
+                status: 500,
+            });
+            const breaker = createCircuitBreaker({ failures: 1, cooldown: 20 });
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: false,
+                breaker,
+            });
+
+            await api.get("/status").void();
+            await Bun.sleep(30);
+            expect(breaker.state("https://api.test")).toBe("half-open");
+
+            await api.get("/status").void();
+
+            expect(breaker.state("https://api.test")).toBe("open");
+            expect(transport.calls).toHaveLength(2);
+        });
+
+        it("should open the circuit when the failure rate is reached", async () => {
+            let count = 0;
+            const breaker = createCircuitBreaker({
+                failures: 10,
+                failureRate: 0.5,
+                minimumRequests: 4,
+            });
+            const api = createFetchio("https://api.test", {
+                transport: async () =>
+                    new Response(null, { status: count++ % 2 ? 500 : 200 }),
+                retry: false,
+                breaker,
+            });
+
+            for (let i = 0; i < 3; i++) await api.get("/").void();
+            expect(breaker.state("https://api.test")).toBe("closed");
+
+            await api.get("/").void();
+            expect(breaker.state("https://api.test")).toBe("open");
+        });
+
+        it("should stop retrying once the circuit opens", async () => {
+            const transport = createMockTransport().on("GET /status", {
+                status: 503,
+            });
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: { attempts: 5, delay: 1 },
+                breaker: { failures: 2 },
+            });
+
+            const result = await api.get("/status").void();
+
+            expect(result.error?.kind).toBe("circuit-open");
+            expect(transport.calls).toHaveLength(2);
+        });
+
+        it("should keep a circuit per origin", async () => {
+            const api = createFetchio("", {
+                transport: async (request) =>
+                    request.url.includes("down")
+                        ? new Response(null, { status: 500 })
+                        : Response.json("up"),
+                retry: false,
+                breaker: { failures: 1 },
+            });
+
+            await api.get("https://down.test/").void();
+            const down = await api.get("https://down.test/").void();
+            const up = await api.get("https://up.test/").json();
+
+            expect(down.error?.kind).toBe("circuit-open");
+            expect(up.data).toBe("up");
+        });
+
+        it("should keep a circuit per sub-instance when scoped to instances", async () => {
+            const transport = createMockTransport()
+                .on("GET /search", { status: 500 })
+                .on("GET /users", { json: [] });
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: false,
+                breaker: { failures: 1, scope: "instance" },
+            });
+            const search = api.sub("/search");
+            const users = api.sub("/users");
+
+            await search.get().void();
+            const failed = await search.get().void();
+            const result = await users.get().json();
+
+            expect(failed.error).toMatchObject({
+                kind: "circuit-open",
+                key: "https://api.test/search",
+            });
+            expect(result.ok).toBe(true);
+        });
+    });
+
+    describe("Cookies", () => {
+        // Transport setting the cookies of the `set` query param and echoing the Cookie header
+        const cookieTransport = () =>
+            createMockTransport().on({}, (call) => {
+                const headers = new Headers();
+                for (const value of call.query["set"]?.split("|") ?? []) {
+                    headers.append("Set-Cookie", value);
+                }
+                return new Response(call.headers["cookie"] ?? "", { headers });
+            });
+
+        it("should send the cookies of responses with later requests", async () => {
+            const cookies = createCookieJar();
+            const api = createFetchio(baseUrl, { cookies });
+
+            await api.get("/cookies/login").void();
+            const result = await api
+                .get("/headers")
+                .json<{ headers: Record<string, string> }>();
+
+            expect(result.data?.headers["cookie"]).toBe("session=abc");
+        });
+
+        it("should keep the cookies of redirect responses", async () => {
+            const cookies = createCookieJar();
+            const api = createFetchio(baseUrl, { cookies });
+
+            const login = await api
+                .post("/cookies/redirect", { user: "ada" })
+                .json<ApiResponse>();
+            const result = await api
+                .get("/headers")
+                .json<{ headers: Record<string, string> }>();
+
+            // The 302 of a POST is followed with a GET
+            expect(login.data?.message).toBe("Hello GET");
+            expect(result.data?.headers["cookie"]).toBe("redirected=yes");
+        });
+
+        it("should send the cookies of every hop and resend bodies on 307", async () => {
+            const cookies = createCookieJar();
+            const transport = createMockTransport()
+                .on("POST /next", (call) => ({
+                    json: { body: call.body, cookie: call.headers["cookie"] },
+                }))
+                .on("POST /start", {
+                    status: 307,
+                    headers: {
+                        Location: "https://shop.test/next",
+                        "Set-Cookie": "step=1",
+                    },
+                });
+            const api = createFetchio("https://shop.test", {
+                cookies,
+                transport,
+            });
+
+            const result = await api
+                .post("/start", "payload")
+                .header("Cookie", "given=1")
+                .json<{ body: string; cookie: string }>();
+
+            expect(result.data).toEqual({
+                body: "payload",
+                cookie: "given=1; step=1",
+            });
+        });
+
+        it("should match cookies by path, most specific first", async () => {
+            const cookies = createCookieJar();
+            const api = createFetchio("https://shop.test", {
+                cookies,
+                transport: cookieTransport(),
+            });
+
+            await api
+                .get("/login")
+                .param("set", ["a=1; Path=/", "b=2; Path=/account"].join("|"))
+                .void();
+
+            expect((await api.get("/account/orders").string()).data).toBe(
+                "b=2; a=1",
+            );
+            expect((await api.get("/accounts").string()).data).toBe("a=1");
+        });
+
+        it("should honour the domain attribute", async () => {
+            const cookies = createCookieJar();
+            const transport = cookieTransport();
+            const api = createFetchio("https://api.shop.test", {
+                cookies,
+                transport,
+            });
+            const www = createFetchio("https://www.shop.test", {
+                cookies,
+                transport,
+            });
+
+            await api
+                .get("/")
+                .param(
+                    "set",
+                    [
+                        "shared=1; Domain=.shop.test",
+                        "own=2",
+                        "other=3; Domain=evil.test",
+                    ].join("|"),
+                )
+                .void();
+
+            expect((await api.get("/").string()).data).toBe("shared=1; own=2");
+            expect((await www.get("/").string()).data).toBe("shared=1");
+            expect(cookies.cookies().map((cookie) => cookie.name)).toEqual([
+                "shared",
+                "own",
+            ]);
+        });
+
+        it("should not let sites set cookies for public suffixes", () => {
+            const cookies = createCookieJar();
+
+            cookies.store("https://shop.com/", ["tld=1; Domain=com"]);
+            cookies.store("https://shop.co.uk/", ["registry=2; Domain=co.uk"]);
+            cookies.store("https://localhost/", ["local=3; Domain=localhost"]);
+
+            expect(cookies.cookies("https://other.com/")).toEqual([]);
+            expect(cookies.cookies("https://other.co.uk/")).toEqual([]);
+            expect(cookies.cookies()).toMatchObject([
+                { name: "local", domain: "localhost", hostOnly: true },
+            ]);
+        });
+
+        it("should expire cookies and keep secure cookies on https", async () => {
+            const cookies = createCookieJar();
+            const transport = cookieTransport();
+            const secure = createFetchio("https://shop.test", {
+                cookies,
+                transport,
+            });
+            const plain = createFetchio("http://shop.test", {
+                cookies,
+                transport,
+            });
+
+            await secure
+                .get("/")
+                .param(
+                    "set",
+                    [
+                        "token=1; Secure",
+                        "gone=1; Max-Age=0",
+                        "old=1; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+                        "later=1; Max-Age=3600",
+                    ].join("|"),
+                )
+                .void();
+            await plain.get("/").param("set", "forged=1; Secure").void();
+
+            expect((await secure.get("/").string()).data).toBe(
+                "token=1; later=1",
+            );
+            expect((await plain.get("/").string()).data).toBe("later=1");
+            expect(cookies.cookies()[1]?.expires).toBeGreaterThan(Date.now());
+        });
+
+        it("should save and load the jar through the file system adapter", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "fetchio-"));
+            try {
+                const fs = createNodeFileSystem(directory);
+                const transport = cookieTransport();
+                const jar = createCookieJar();
+
+                await createFetchio("https://shop.test", {
+                    cookies: jar,
+                    transport,
+                })
+                    .get("/")
+                    .param("set", "session=abc; HttpOnly")
+                    .void();
+                await jar.save(fs, "cookies.json");
+
+                const loaded = createCookieJar();
+                await loaded.load(fs, "cookies.json");
+                const result = await createFetchio("https://shop.test", {
+                    cookies: loaded,
+                    transport,
+                })
+                    .get("/")
+                    .string();
+
+                expect(result.data).toBe("session=abc");
+                expect(loaded.toJSON()[0]).toMatchObject({
+                    name: "session",
+                    httpOnly: true,
+                    hostOnly: true,
+                });
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe("Lifecycle hooks", () => {
+        it("should report every step of a request with its context", async () => {
+            const events: [string, RequestContext][] = [];
+            const record = (name: string) => (context: RequestContext) => {
+                events.push([name, { ...context }]);
+            };
+            const transport = createMockTransport()
+                .on("GET /items", { json: [1] })
+                .on("GET /items", { status: 503 }, 1);
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: { delay: 1, jitter: false },
+                onRequest: record("request"),
+                onResponse: record("response"),
+                onRetry: record("retry"),
+                onError: record("error"),
+                onComplete: record("complete"),
+            });
+
+            const result = await api.get("/items").param("page", 1).json();
+
+            expect(result.ok).toBe(true);
+            expect(
+                events.map(([name, { attempt, status }]) => [
+                    name,
+                    attempt,
+                    status,
+                ]),
+            ).toEqual([
+                ["request", 1, undefined],
+                ["response", 1, 503],
+                ["retry", 1, 503],
+                ["request", 2, 503],
+                ["response", 2, 200],
+                ["complete", 2, 200],
+            ]);
+
+            const [, complete] = events[5]!;
+            expect(new Set(events.map(([, { id }]) => id)).size).toBe(1);
+            expect(complete.method).toBe("GET");
+            expect(complete.url).toBe("https://api.test/items?page=1");
+            expect(complete.timings.start).toBeLessThanOrEqual(Date.now());
+            expect(complete.timings.headers).toBeGreaterThanOrEqual(0);
+            expect(complete.timings.body).toBeGreaterThanOrEqual(
+                complete.timings.headers ?? 0,
+            );
+            expect(
+                (events[2]?.[1] as RequestContext & { delay: number }).delay,
+            ).toBe(1);
+        });
+
+        it("should report failures and ignore hook errors", async () => {
+            const errors: string[] = [];
+            const api = createFetchio(baseUrl, {
+                onRequest: () => {
+                    throw new Error("Broken hook");
+                },
+                onError: ({ error }) => errors.push(error.kind),
+            });
+
+            const result = await api.get("/error/not-found").json();
+
+            expect(result.status).toBe(404);
+            expect(errors).toEqual(["http"]);
+        });
+
+        it("should complete streams once they are consumed", async () => {
+            const completed: boolean[] = [];
+            const api = createFetchio(baseUrl, {
+                onComplete: ({ result }) => completed.push(result.ok),
+            });
+
+            const lines = api.get("/ndjson").lines();
+            for await (const _ of lines) {
+                expect(completed).toEqual([]);
+            }
+
+            expect(completed).toEqual([true]);
+        });
+
+        it("should trace requests with OpenTelemetry spans", async () => {
+            const spans: {
+                name: string;
+                attributes: Record<string, unknown>;
+                status?: number;
+                ended: boolean;
+            }[] = [];
+            const tracer = {
+                startSpan: (
+                    name: string,
+                    options?: { attributes?: Record<string, unknown> },
+                ): SpanLike => {
+                    const span = {
+                        name,
+                        attributes: { ...options?.attributes },
+                        status: undefined as number | undefined,
+                        ended: false,
+                    };
+                    spans.push(span);
+                    return {
+                        spanContext: () => ({
+                            traceId: "0af7651916cd43dd8448eb211c80319c",
+                            spanId: `b7ad6b716920333${spans.length}`,
+                            traceFlags: 1,
+                        }),
+                        setAttribute: (key, value) =>
+                            (span.attributes[key] = value),
+                        setStatus: ({ code }) => (span.status = code),
+                        end: () => (span.ended = true),
+                    };
+                },
+            };
+            const transport = createMockTransport()
+                .on("GET /ok", { json: {} })
+                .on("GET /fail", { status: 500 });
+            const api = createFetchio("https://api.test", {
+                transport,
+                retry: false,
+                ...createTracingHooks(tracer),
+            });
+
+            await api.get("/ok").json();
+            await api.get("/fail").json();
+
+            expect(transport.calls[0]?.headers["traceparent"]).toBe(
+                "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+            );
+            expect(spans[0]).toEqual({
+                name: "GET",
+                attributes: {
+                    "http.request.method": "GET",
+                    "url.full": "https://api.test/ok",
+                    "http.response.status_code": 200,
+                },
+                status: undefined,
+                ended: true,
+            });
+            expect(spans[1]?.status).toBe(2);
+            expect(spans[1]?.attributes["error.type"]).toBe("http");
+        });
+    });
+
+    describe("HAR recorder", () => {
+        it("should record the exchanges of an instance and its sub-instances", async () => {
+            const recorder = createHarRecorder({
+                redactFields: ["password", "token"],
+            });
+            const transport = createMockTransport()
+                .on("POST /login", {
+                    json: { token: "secret", user: "ada" },
+                    headers: { "Set-Cookie": "session=1" },
+                })
+                .on("GET /users/me", { json: { name: "Ada" } });
+            const api = createFetchio("https://api.test", {
+                transport,
+                recorder,
+                headers: { Authorization: "Bearer abc" },
+            });
+
+            await api
+                .post("/login", { user: "ada", password: "hunter2" })
+                .json();
+            await api.sub("/users").get("/me").param("token", "t1").json();
+
+            const { log } = await recorder.har();
+            const [login, me] = log.entries;
+
+            expect(log.version).toBe("1.2");
+            expect(log.entries).toHaveLength(2);
+            expect(login?.request).toMatchObject({
+                method: "POST",
+                url: "https://api.test/login",
+                postData: {
+                    mimeType: "application/json",
+                    text: '{"user":"ada","password":"[REDACTED]"}',
+                },
+            });
+            expect(login?.request.headers).toContainEqual({
+                name: "authorization",
+                value: "[REDACTED]",
+            });
+            expect(login?.response).toMatchObject({
+                status: 200,
+                content: { text: '{"token":"[REDACTED]","user":"ada"}' },
+            });
+            expect(login?.response.headers).toContainEqual({
+                name: "set-cookie",
+                value: "[REDACTED]",
+            });
+            expect(me?.request.url).toBe(
+                "https://api.test/users/me?token=%5BREDACTED%5D",
+            );
+            expect(me?.timings.wait).toBeGreaterThanOrEqual(0);
+            expect(me?.time).toBeGreaterThanOrEqual(me?.timings.wait ?? 0);
+        });
+
+        it("should truncate large bodies and record network errors", async () => {
+            const recorder = createHarRecorder({ maxBodySize: 4 });
+            const api = createFetchio("https://api.test", {
+                retry: false,
+                recorder,
+                transport: async (request) => {
+                    if (request.url.endsWith("/down")) {
+                        throw new TypeError("Network is down");
+                    }
+                    return new Response("0123456789");
+                },
+            });
+
+            await api.get("/large").string();
+            await api.get("/down").string();
+
+            const [large, down] = (await recorder.har()).log.entries;
+            expect(large?.response.content).toMatchObject({
+                size: 10,
+                text: "0123",
+                comment: "Truncated to 4 of 10 bytes",
+            });
+            expect(down?.response.status).toBe(0);
+            expect(down?._error).toBe("Network is down");
+        });
+
+        it("should export streams that are still open as read so far", async () => {
+            const recorder = createHarRecorder();
+            let feed!: ReadableStreamDefaultController<Uint8Array>;
+            const body = new ReadableStream<Uint8Array>({
+                start: (controller) => {
+                    feed = controller;
+                },
+            });
+            const api = createFetchio("https://api.test", {
+                recorder,
+                transport: async () => new Response(body),
+            });
+
+            const lines = api.get("/events").lines()[Symbol.asyncIterator]();
+            feed.enqueue(new TextEncoder().encode("data: first\n"));
+            await lines.next();
+
+            const [open] = (await recorder.har()).log.entries;
+            expect(open?.response.content).toMatchObject({
+                text: "data: first\n",
+                comment: "Incomplete, 12 bytes were read when exported",
+            });
+
+            feed.close();
+            await lines.next();
+            const [closed] = (await recorder.har()).log.entries;
+            expect(closed?.response.content.comment).toBeUndefined();
+        });
+
+        it("should save the document and export requests as cURL commands", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "fetchio-"));
+            try {
+                const recorder = createHarRecorder();
+                const api = createFetchio("https://api.test", {
+                    transport: createMockTransport().on({}, { status: 204 }),
+                    recorder,
+                });
+
+                await api.post("/notes", "it's done").void();
+                await api.put("/bytes", new Uint8Array([0xff, 0])).void();
+                await recorder.save(
+                    createNodeFileSystem(directory),
+                    "traffic.har",
+                );
+
+                const saved = JSON.parse(
+                    await readFile(join(directory, "traffic.har"), "utf8"),
+                );
+                const [text, binary] = recorder.entries();
+
+                expect(saved.log.entries).toHaveLength(2);
+                expect(recorder.curl(text!)).toBe(
+                    "curl -X POST 'https://api.test/notes' -H 'content-type: text/plain' --data-raw 'it'\\''s done'",
+                );
+                expect(recorder.curl(binary!)).toBe(
+                    "echo '/wA=' | base64 -d | curl -X PUT 'https://api.test/bytes' -H 'content-type: application/octet-stream' --data-binary @-",
+                );
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe("Files", () => {
+        let directory: string;
+
+        beforeAll(async () => {
+            directory = await mkdtemp(join(tmpdir(), "fetchio-"));
+            await writeFile(join(directory, "report.txt"), "Report content");
+        });
+
+        afterAll(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it("should download using the Content-Disposition file name", async () => {
+            const api = createFetchio(baseUrl, {
+                fs: createNodeFileSystem(directory),
+            });
+
+            const result = await api
+                .get("/download")
+                .param("disposition", `attachment; filename="../saved.txt"`)
+                .download<string>();
+
+            expect(result.ok).toBe(true);
+            expect(result.data).toBe(join(directory, "saved.txt"));
+            expect(await readFile(join(directory, "saved.txt"), "utf8")).toBe(
+                "File content",
+            );
+        });
+
+        it("should download using an explicit file name", async () => {
+            const api = createFetchio(baseUrl, {
+                fs: createNodeFileSystem(directory),
+            });
+
+            const result = await api.get("/download").download("named.txt");
+
+            expect(result.ok).toBe(true);
+            expect(await readFile(join(directory, "named.txt"), "utf8")).toBe(
+                "File content",
+            );
+        });
+
+        it("should fall back to saveFile without saveStream", async () => {
+            const fs: FileSystemAdapter = {
+                saveFile: async <R>(data: ArrayBuffer | Blob, name: string) =>
+                    `${name}:${await (data as Blob).text()}` as R,
+                loadFile: async () => new Blob(),
+            };
+            const api = createFetchio(baseUrl, { fs });
+
+            const result = await api
+                .get("/download")
+                .param(
+                    "disposition",
+                    "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.txt",
+                )
+                .download();
+
+            expect(result.data).toBe("résumé.txt:File content");
+        });
+
+        it("should fail without a file system adapter", async () => {
+            const api = createFetchio(baseUrl);
+
+            const download = await api.get("/download").download();
+            const upload = await api.post("/upload").file("report.txt").json();
+
+            expect(download.error).toEqual({
+                kind: "missing-adapter",
+                adapter: "fs",
+            });
+            expect(upload.error).toEqual({
+                kind: "missing-adapter",
+                adapter: "fs",
+            });
+        });
+
+        it("should send a loaded file as the body", async () => {
+            const api = createFetchio(baseUrl, {
+                fs: createNodeFileSystem(directory),
+            });
+
+            const result = await api
+                .post("/upload")
+                .file("report.txt", "text/plain")
+                .json<{ contentType: string; body: string }>();
+
+            expect(result.data).toEqual({
+                contentType: "text/plain",
+                body: "Report content",
+            });
+        });
+
+        it("should send loaded files as multipart parts", async () => {
+            const api = createFetchio(baseUrl, {
+                fs: createNodeFileSystem(directory),
+            });
+            const form = new FormData();
+            form.append("title", "Quarterly");
+
+            const result = await api
+                .post("/upload", form)
+                .attach("report", "report.txt")
+                .json<{
+                    contentType: string;
+                    parts: Record<string, unknown>;
+                }>();
+
+            expect(result.data?.contentType).toContain("multipart/form-data");
+            expect(result.data?.parts).toEqual({
+                title: "Quarterly",
+                report: { name: "report.txt" },
+            });
+        });
+
+        it("should report file system failures", async () => {
+            const api = createFetchio(baseUrl, {
+                fs: createNodeFileSystem(directory),
+            });
+
+            const result = await api.post("/upload").file("missing.txt").json();
+
+            expect(result.error?.kind).toBe("fs");
+        });
+    });
+
+    describe("Progress", () => {
+        it("should report download progress", async () => {
+            const api = createFetchio(baseUrl);
+            const events: Progress[] = [];
+
+            const result = await api
+                .get("/large")
+                .onDownloadProgress((progress) => events.push(progress))
+                .bytes();
+
+            expect(result.ok).toBe(true);
+            expect(result.data?.byteLength).toBe(256 * 1024);
+            expect(events.length).toBeGreaterThan(0);
+            expect(events.at(-1)?.loaded).toBe(256 * 1024);
+            expect(events.at(-1)?.total).toBe(256 * 1024);
+            expect(events.at(-1)?.rate).toBeGreaterThanOrEqual(0);
+        });
+
+        it("should report download progress for text", async () => {
+            const api = createFetchio(baseUrl);
+            const events: Progress[] = [];
+
+            const result = await api
+                .get("/formats")
+                .param("format", "text")
+                .onDownloadProgress((progress) => events.push(progress))
+                .string();
+
+            expect(result.data).toBe("Plain text response");
+            expect(events.at(-1)?.loaded).toBe("Plain text response".length);
+        });
+
+        it("should report upload progress", async () => {
+            const api = createFetchio(baseUrl);
+            const events: Progress[] = [];
+            const payload = "x".repeat(200 * 1024);
+
+            const result = await api
+                .post("/string-payload", payload)
+                .onUploadProgress((progress) => events.push(progress))
+                .json<{ received: string }>();
+
+            expect(result.data?.received).toBe(payload);
+            expect(events.length).toBeGreaterThan(1);
+            expect(events.at(-1)).toMatchObject({
+                loaded: payload.length,
+                total: payload.length,
+            });
+        });
+
+        it("should stream Blob uploads with their length", async () => {
+            const transport = createMockTransport().on("POST /files", {
+                status: 204,
+            });
+            const api = createFetchio(baseUrl, { transport });
+            const events: Progress[] = [];
+            const blob = new Blob(["x".repeat(200 * 1024)], {
+                type: "text/plain",
+            });
+
+            await api
+                .post("/files", blob)
+                .onUploadProgress((progress) => events.push(progress))
+                .void();
+
+            const [call] = transport.calls;
+            expect(call?.headers["content-length"]).toBe(String(blob.size));
+            expect(call?.headers["content-type"]).toContain("text/plain");
+            expect(call?.body.length).toBe(blob.size);
+            expect(events.length).toBeGreaterThan(1);
+            expect(events.at(-1)).toMatchObject({
+                loaded: blob.size,
+                total: blob.size,
+            });
+        });
+
+        it("should send uploads in one piece when fetch rejects the stream", async () => {
+            const mocked = createMockTransport().on("POST /files", {
+                status: 204,
+            });
+            // Like Chromium over HTTP/1.1, streamed bodies are rejected
+            const transport = mock(async (request: Request) => {
+                if (transport.mock.calls.length === 1) {
+                    throw new TypeError("Failed to fetch");
+                }
+                return mocked(request);
+            });
+            const api = createFetchio(baseUrl, { transport, retry: false });
+            const events: Progress[] = [];
+            const blob = new Blob(["x".repeat(1024)], { type: "text/plain" });
+
+            const result = await api
+                .post("/files", blob)
+                .onUploadProgress((progress) => events.push(progress))
+                .void();
+
+            expect(result.ok).toBe(true);
+            expect(transport).toHaveBeenCalledTimes(2);
+            expect(mocked.calls[0]?.body).toBe("x".repeat(1024));
+            expect(events.at(-1)).toMatchObject({
+                loaded: blob.size,
+                total: blob.size,
+            });
+        });
+
+        it("should keep the multipart encoding when reporting upload progress", async () => {
+            const fs: FileSystemAdapter = {
+                saveFile: async () => {
+                    throw new Error("Uploads do not save files");
+                },
+                loadFile: async () => new Blob(["content"]),
+            };
+            const api = createFetchio(baseUrl, { fs });
+            const events: Progress[] = [];
+
+            const result = await api
+                .post("/upload")
+                .attach("file", "notes.txt")
+                .onUploadProgress((progress) => events.push(progress))
+                .json<{ parts: Record<string, unknown> }>();
+
+            expect(result.data?.parts).toEqual({ file: { name: "notes.txt" } });
+            expect(events.at(-1)?.loaded).toBe(events.at(-1)?.total);
+        });
+    });
+
+    describe("Streaming", () => {
+        it("should stream raw chunks", async () => {
+            const api = createFetchio(baseUrl);
+            const decoder = new TextDecoder();
+            let text = "";
+
+            for await (const chunk of api
+                .get("/formats")
+                .param("format", "text")
+                .stream()) {
+                expect(chunk).toBeInstanceOf(Uint8Array);
+                text += decoder.decode(chunk, { stream: true });
+            }
+
+            expect(text).toBe("Plain text response");
+        });
+
+        it("should stream lines", async () => {
+            const api = createFetchio(baseUrl);
+            const lines: string[] = [];
+
+            for await (const line of api
+                .get("/ndjson")
+                .param("count", "2")
+                .lines()) {
+                lines.push(line);
+            }
+
+            expect(lines).toEqual(['{"index":0}', '{"index":1}']);
+        });
+
+        it("should stream NDJSON values through interceptors", async () => {
+            const requestInterceptor = mock((url, options) =>
+                Promise.resolve({ url, options }),
+            );
+            const api = createFetchio(baseUrl, { requestInterceptor });
+            const values: { index: number }[] = [];
+
+            for await (const value of api
+                .get("/ndjson")
+                .param("count", "3")
+                .ndjson<{ index: number }>()) {
+                values.push(value);
+            }
+
+            expect(values).toEqual([{ index: 0 }, { index: 1 }, { index: 2 }]);
+            expect(requestInterceptor).toHaveBeenCalledTimes(1);
+        });
+
+        it("should abort the request when leaving the loop", async () => {
+            const api = createFetchio(baseUrl);
+            const values: unknown[] = [];
+
+            for await (const value of api
+                .get("/ndjson")
+                .params({ id: "break", count: "100", pause: "5" })
+                .ndjson()) {
+                values.push(value);
+                if (values.length === 2) break;
+            }
+            await Bun.sleep(50);
+
+            expect(values).toHaveLength(2);
+            expect(cancelledStreams.has("break")).toBe(true);
+        });
+
+        it("should throw a FetchioError for failed responses", async () => {
+            const api = createFetchio(baseUrl);
+
+            let caught: unknown;
+            try {
+                for await (const _ of api.get("/error/not-found").lines()) {
+                    // Never reached
+                }
+            } catch (error) {
+                caught = error;
+            }
+
+            expect(caught).toBeInstanceOf(FetchioError);
+            expect((caught as FetchioError).status).toBe(404);
+            expect((caught as FetchioError).error.kind).toBe("http");
+        });
+
+        it("should throw a FetchioError for invalid NDJSON lines", async () => {
+            const api = createFetchio(baseUrl);
+
+            const iterate = async () => {
+                for await (const _ of api
+                    .get("/formats")
+                    .param("format", "text")
+                    .ndjson()) {
+                    // Never reached
+                }
+            };
+
+            await expect(iterate()).rejects.toBeInstanceOf(FetchioError);
+        });
+    });
+
+    describe("Pagination", () => {
+        const api = createFetchio(baseUrl, {
+            headers: { "X-Token": "secret" },
+        });
+
+        const collect = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+            const collected: T[] = [];
+            for await (const item of items) collected.push(item);
+            return collected;
+        };
+
+        it("should follow Link headers", async () => {
+            const items = await collect(
+                api
+                    .get("/pages")
+                    .param("id", "pages-link")
+                    .paginate<number>({ type: "link" }),
+            );
+
+            expect(items).toEqual([1, 2, 3, 4, 5, 6, 7]);
+            expect(callCounts.get("pages-link")).toBe(3);
+        });
+
+        it("should send cursors read from the pages", async () => {
+            const pages = await collect(
+                api
+                    .get("/pages")
+                    .params({ style: "cursor" })
+                    .paginate<number>({
+                        type: "cursor",
+                        cursor: (data) =>
+                            (data as { next: string | null }).next,
+                        items: (data) => (data as { items: number[] }).items,
+                    })
+                    .pages(),
+            );
+
+            expect(pages.map((page) => page.items)).toEqual([
+                [1, 2, 3],
+                [4, 5, 6],
+                [7],
+            ]);
+            expect(pages[2]?.url).toContain("cursor=6");
+            expect(pages.map((page) => page.index)).toEqual([0, 1, 2]);
+        });
+
+        it("should page with offset and limit until a page is short", async () => {
+            const paginated = api
+                .get("/pages")
+                .param("style", "offset")
+                .paginate<number>({
+                    type: "offset",
+                    limit: 4,
+                    items: (data) => (data as { results: number[] }).results,
+                });
+
+            expect(await collect(paginated)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+            // Iterating again starts over
+            expect(await collect(paginated)).toHaveLength(7);
+        });
+
+        it("should stop at the page and item limits", async () => {
+            const request = api.get("/pages").param("id", "pages-limit");
+
+            const byPages = await collect(
+                request.paginate<number>({ type: "link" }, { maxPages: 2 }),
+            );
+            const byItems = await collect(
+                request.paginate<number>({ type: "link" }, { maxItems: 4 }),
+            );
+
+            expect(byPages).toEqual([1, 2, 3, 4, 5, 6]);
+            expect(byItems).toEqual([1, 2, 3, 4]);
+            expect(callCounts.get("pages-limit")).toBe(4);
+        });
+
+        it("should support custom strategies", async () => {
+            const items = await collect(
+                api.get("/pages").paginate<number>(({ data, index }) => ({
+                    items: data as number[],
+                    next: index < 1 ? { params: { page: index + 2 } } : null,
+                })),
+            );
+
+            expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+        });
+
+        it("should reuse interceptors and throw failures", async () => {
+            const unauthorized = createFetchio(baseUrl);
+            const api = createFetchio(baseUrl);
+            let intercepted = 0;
+            api.use({
+                request: async (url, options) => {
+                    intercepted++;
+                    return {
+                        url,
+                        options: {
+                            ...options,
+                            headers: {
+                                ...options.headers,
+                                "X-Token": "secret",
+                            },
+                        },
+                    };
+                },
+            });
+
+            await collect(api.get("/pages").paginate({ type: "link" }));
+
+            expect(intercepted).toBe(3);
+            await expect(
+                collect(unauthorized.get("/pages").paginate({ type: "link" })),
+            ).rejects.toMatchObject({ status: 401, error: { kind: "http" } });
+        });
+    });
+
+    describe("Server-Sent Events", () => {
+        type Payload = {
+            n: number;
+            body: string;
+            auth: string;
+            accept: string;
+        };
+
+        it("should parse events and reconnect with the last event id", async () => {
+            const api = createFetchio(baseUrl);
+            const events: ServerSentEvent<Payload>[] = [];
+
+            for await (const event of api
+                .get("/events")
+                .param("id", "sse-iterate")
+                .sse<Payload>({ parse: JSON.parse })) {
+                events.push(event);
+            }
+
+            expect(
+                events.map(({ event, id, data }) => [event, id, data.n]),
+            ).toEqual([
+                ["message", "1", 1],
+                ["update", "2", 2],
+                ["message", "3", 3],
+            ]);
+            expect(events[0]?.data.accept).toBe("text/event-stream");
+            // Three streams and the final 204 reply
+            expect(callCounts.get("sse-iterate")).toBe(4);
+        });
+
+        it("should reuse interceptors and send POST bodies", async () => {
+            const api = createFetchio(baseUrl);
+            api.use({
+                request: async (url, options) => ({
+                    url,
+                    options: {
+                        ...options,
+                        headers: {
+                            ...options.headers,
+                            Authorization: "Bearer token",
+                        },
+                    },
+                }),
+            });
+            const events: ServerSentEvent<Payload>[] = [];
+
+            for await (const event of api
+                .post("/events?id=sse-post", "prompt")
+                .sse<Payload>({ parse: JSON.parse })) {
+                events.push(event);
+            }
+
+            expect(events).toHaveLength(3);
+            expect(events[2]?.data.body).toBe("prompt");
+            expect(events[2]?.data.auth).toBe("Bearer token");
+        });
+
+        it("should deliver events to subscriptions until closed", async () => {
+            const api = createFetchio(baseUrl);
+            const stream = api.get("/events").param("id", "sse-on").sse();
+            const updates: ServerSentEvent[] = [];
+
+            await new Promise<void>((resolve) => {
+                stream.on("update", (event) => {
+                    updates.push(event);
+                    stream.close();
+                    resolve();
+                });
+            });
+            await Bun.sleep(30);
+
+            expect(updates).toHaveLength(1);
+            expect(updates[0]?.data).toContain('"n":2');
+            expect(callCounts.get("sse-on")).toBe(2);
+        });
+
+        it("should not reconnect after HTTP errors", async () => {
+            const api = createFetchio(baseUrl);
+            const errors: unknown[] = [];
+
+            const stream = api.get("/error/server-error").sse();
+            stream.onError((error) => errors.push(error));
+
+            await expect(
+                (async () => {
+                    for await (const _ of stream) {
+                        // Never reached
+                    }
+                })(),
+            ).rejects.toBeInstanceOf(FetchioError);
+            expect(errors).toHaveLength(1);
+        });
+
+        it("should leave the builder as it was after the stream", async () => {
+            const transport = createMockTransport().on("GET /feed", (call) =>
+                call.headers["accept"] !== "text/event-stream"
+                    ? { json: call.headers }
+                    : call.headers["last-event-id"]
+                      ? { status: 204 }
+                      : {
+                            headers: { "Content-Type": "text/event-stream" },
+                            body: "retry: 5\nid: 1\ndata: hi\n\n",
+                        },
+            );
+            const api = createFetchio("https://api.test", { transport });
+            const builder = api.get("/feed");
+
+            const events: ServerSentEvent[] = [];
+            for await (const event of builder.sse()) events.push(event);
+            const result = await builder.json<Record<string, string>>();
+
+            expect(events).toHaveLength(1);
+            expect(result.status).toBe(200);
+            expect(result.data?.["accept"]).not.toBe("text/event-stream");
+            expect(result.data?.["last-event-id"]).toBeUndefined();
+        });
+    });
+
+    describe("Authentication", () => {
+        // Token store whose refresh takes a while, counting refreshes
+        const tokens = (refreshed: string | null = "fresh") => {
+            const store = { token: "stale", refreshes: 0 };
+            return {
+                store,
+                getToken: () => store.token,
+                refreshToken: async () => {
+                    store.refreshes++;
+                    await Bun.sleep(20);
+                    if (refreshed) store.token = refreshed;
+                    return refreshed;
+                },
+            };
+        };
+
+        it("should send bearer tokens", async () => {
+            const api = createFetchio(baseUrl, {
+                auth: { getToken: async () => "fresh" },
+            });
+
+            const result = await api
+                .get("/protected")
+                .json<{ authorization: string }>();
+
+            expect(result.data?.authorization).toBe("Bearer fresh");
+        });
+
+        it("should refresh once for concurrent 401 responses and replay", async () => {
+            const { store, ...auth } = tokens();
+            const api = createFetchio(baseUrl, { auth });
+
+            const results = await Promise.all(
+                [1, 2, 3].map(() =>
+                    api.get("/protected").param("id", "auth-refresh").json(),
+                ),
+            );
+            const later = await api
+                .get("/protected")
+                .param("id", "auth-refresh")
+                .json();
+
+            expect(results.every((result) => result.ok)).toBe(true);
+            expect(later.ok).toBe(true);
+            expect(store.refreshes).toBe(1);
+            // Three rejected requests, three replays and the later request
+            expect(callCounts.get("auth-refresh")).toBe(7);
+        });
+
+        it("should return the 401 response when the refresh fails", async () => {
+            const { store, ...auth } = tokens(null);
+            const api = createFetchio(baseUrl, { auth });
+
+            const result = await api
+                .get("/protected")
+                .param("id", "auth-failed")
+                .json();
+
+            expect(result.status).toBe(401);
+            expect(store.refreshes).toBe(1);
+            expect(callCounts.get("auth-failed")).toBe(1);
+        });
+
+        it("should support basic and custom schemes", async () => {
+            const basic = createFetchio(baseUrl, {
+                auth: { scheme: "basic", username: "zoë", password: "secret" },
+            });
+            const custom = createFetchio(baseUrl, {
+                auth: {
+                    scheme: "custom",
+                    getToken: () => "key",
+                    headers: (token) => ({ "X-Api-Key": token }),
+                },
+            });
+
+            const basicResult = await basic
+                .get("/protected")
+                .json<{ authorization: string }>();
+            const customResult = await custom
+                .get("/headers")
+                .json<{ headers: Record<string, string> }>();
+
+            expect(basicResult.data?.authorization).toBe(
+                `Basic ${Buffer.from("zoë:secret").toString("base64")}`,
+            );
+            expect(customResult.data?.headers["x-api-key"]).toBe("key");
+        });
+
+        it("should skip authentication for a sub-instance or a request", async () => {
+            const api = createFetchio(baseUrl, {
+                auth: { getToken: () => "fresh" },
+            });
+            const headers = async (request: RequestBuilder) =>
+                (await request.json<{ headers: Record<string, string> }>()).data
+                    ?.headers;
+
+            expect(await headers(api.get("/headers"))).toHaveProperty(
+                "authorization",
+            );
+            expect(
+                await headers(api.sub("", { auth: false }).get("/headers")),
+            ).not.toHaveProperty("authorization");
+            expect(
+                await headers(api.get("/headers").auth(false)),
+            ).not.toHaveProperty("authorization");
+        });
+    });
+
+    describe("Interceptors", () => {
+        it("should use request interceptors", async () => {
+            const requestInterceptor = mock((url, options) => {
+                return Promise.resolve({
+                    url: url,
+                    options: {
+                        ...options,
+                        headers: { ...options.headers, "X-Test": "test-value" },
+                    },
+                });
+            });
+
+            const api = createFetchio(baseUrl, { requestInterceptor });
+            await api.get("/hello").json();
+
+            expect(requestInterceptor).toHaveBeenCalled();
+            expect(requestInterceptor.mock.calls[0]?.[0]).toBe(
+                "http://localhost:3000/hello",
+            );
+        });
+
+        it("should use response interceptors", async () => {
+            const responseInterceptor = mock((response) => {
+                return Promise.resolve({
+                    success: response.status === 200,
+                    data: { intercepted: true },
+                });
+            });
+
+            const api = createFetchio("/", {
+                requestInterceptor: async (url, options) => {
+                    return { url: `${baseUrl}${url}`, options };
+                },
+                responseInterceptor,
+            });
+
+            const result = await api.get("/hello").json();
+
+            expect(responseInterceptor).toHaveBeenCalled();
+            expect(result.data).toEqual({ intercepted: true });
+        });
+    });
+
+    describe("Interceptor chains", () => {
+        const tag =
+            (value: string) => async (url: string, options: FetchioConfig) => ({
+                url,
+                options: {
+                    ...options,
+                    headers: {
+                        ...options.headers,
+                        "X-Chain": [options.headers?.["X-Chain"], value]
+                            .filter(Boolean)
+                            .join(","),
+                    },
+                },
+            });
+
+        it("should run registered request interceptors in order", async () => {
+            const api = createFetchio(baseUrl, {
+                requestInterceptor: tag("config"),
+            });
+            api.use({ request: tag("first") });
+            api.use({ request: tag("second") });
+
+            const result = await api
+                .get("/headers")
+                .json<{ headers: Record<string, string> }>();
+
+            expect(result.data?.headers["x-chain"]).toBe("config,first,second");
+        });
+
+        it("should eject registered interceptors", async () => {
+            const api = createFetchio(baseUrl);
+            const id = api.use({ request: tag("ejected") });
+            api.use({ request: tag("kept") });
+            api.eject(id);
+
+            const result = await api
+                .get("/headers")
+                .json<{ headers: Record<string, string> }>();
+
+            expect(result.data?.headers["x-chain"]).toBe("kept");
+        });
+
+        it("should inherit the parent chain in sub instances", async () => {
+            const api = createFetchio(baseUrl, {
+                requestInterceptor: tag("parent"),
+            });
+            const child = api.sub("/headers", {
+                requestInterceptor: tag("child"),
+            });
+            child.use({ request: tag("child-use") });
+            // Registered after the child was created, still applies to it
+            api.use({ request: tag("parent-use") });
+
+            const result = await child
+                .get()
+                .json<{ headers: Record<string, string> }>();
+            const parent = await api
+                .get("/headers")
+                .json<{ headers: Record<string, string> }>();
+
+            expect(result.data?.headers["x-chain"]).toBe(
+                "parent,parent-use,child,child-use",
+            );
+            expect(parent.data?.headers["x-chain"]).toBe("parent,parent-use");
+        });
+
+        it("should pass control to the default response processing", async () => {
+            const seen: number[] = [];
+            const api = createFetchio(baseUrl);
+            api.use({
+                response: async (response, next) => {
+                    seen.push(response.status);
+                    return next();
+                },
+            });
+
+            const result = await api.get("/hello").json<ApiResponse>();
+
+            expect(seen).toEqual([200]);
+            expect(result.success).toBe(true);
+            expect(result.data?.message).toBe("Hello GET");
+        });
+
+        it("should wrap response interceptors from outermost to innermost", async () => {
+            const order: string[] = [];
+            const api = createFetchio(baseUrl);
+            api.use({
+                response: async (_, next) => {
+                    order.push("outer:before");
+                    const result = await next();
+                    order.push("outer:after");
+                    return result;
+                },
+            });
+            api.use({
+                response: async (_, next) => {
+                    order.push("inner");
+                    return next();
+                },
+            });
+
+            await api.get("/hello").json();
+
+            expect(order).toEqual(["outer:before", "inner", "outer:after"]);
+        });
+    });
+
+    describe("Retry", () => {
+        it("should not retry by default", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api
+                .get("/flaky")
+                .params({ id: "no-retry", fails: "1" })
+                .string();
+
+            expect(result.success).toBe(false);
+            expect(result.attempts).toBe(1);
+        });
+
+        it("should retry failed statuses until success", async () => {
+            const requestInterceptor = mock((url, options) =>
+                Promise.resolve({ url, options }),
+            );
+            const api = createFetchio(baseUrl, {
+                requestInterceptor,
+                retry: { attempts: 3, delay: 1 },
+            });
+
+            const result = await api
+                .get("/flaky")
+                .params({ id: "recovers", fails: "2" })
+                .json<ApiResponse>();
+
+            expect(result.success).toBe(true);
+            expect(result.data?.message).toBe("Recovered");
+            expect(result.attempts).toBe(3);
+            expect(requestInterceptor).toHaveBeenCalledTimes(3);
+        });
+
+        it("should stop after the maximum attempts", async () => {
+            const api = createFetchio(baseUrl, { retry: { delay: 1 } });
+
+            const result = await api
+                .get("/flaky")
+                .params({ id: "exhausted", fails: "5" })
+                .retry({ attempts: 2, delay: 1 })
+                .string();
+
+            expect(result.success).toBe(false);
+            expect(result.attempts).toBe(2);
+        });
+
+        it("should not retry statuses outside the policy", async () => {
+            const api = createFetchio(baseUrl, { retry: { delay: 1 } });
+
+            const result = await api
+                .get("/flaky")
+                .params({ id: "not-retried", fails: "1", status: "400" })
+                .string();
+
+            expect(result.success).toBe(false);
+            expect(result.attempts).toBe(1);
+        });
+
+        it("should only retry idempotent methods by default", async () => {
+            const api = createFetchio(baseUrl, { retry: { delay: 1 } });
+
+            const result = await api
+                .post("/flaky?id=post-default&fails=1", { value: 1 })
+                .string();
+            expect(result.attempts).toBe(1);
+
+            const retried = await api
+                .post("/flaky?id=post-allowed&fails=1", { value: 1 })
+                .retry({ delay: 1, methods: ["POST"] })
+                .json<ApiResponse>();
+            expect(retried.success).toBe(true);
+            expect(retried.attempts).toBe(2);
+        });
+
+        it("should honour Retry-After", async () => {
+            const api = createFetchio(baseUrl, {
+                retry: { delay: 5_000, retryAfter: true },
+            });
+
+            const start = Date.now();
+            const result = await api
+                .get("/flaky")
+                .params({ id: "retry-after", fails: "1", retryAfter: "0" })
+                .json<ApiResponse>();
+
+            expect(result.success).toBe(true);
+            expect(result.attempts).toBe(2);
+            expect(Date.now() - start).toBeLessThan(1_000);
+        });
+
+        it("should retry network errors", async () => {
+            const requestInterceptor = mock((url, options) =>
+                Promise.resolve({ url, options }),
+            );
+            const api = createFetchio("http://localhost:1", {
+                requestInterceptor,
+                retry: { attempts: 2, delay: 1 },
+            });
+
+            const result = await api.get("/").string();
+
+            expect(result.ok).toBe(false);
+            expect(result.attempts).toBe(2);
+            expect(requestInterceptor).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("Timeouts and cancellation", () => {
+        it("should resolve to a timeout failure", async () => {
+            const api = createFetchio(baseUrl);
+
+            const result = await api
+                .get("/slow")
+                .param("delay", "200")
+                .timeout(20)
+                .json();
+
+            expect(result.success).toBe(false);
+            expect(result.data).toBe(null);
+            expect(result.error).toEqual({ kind: "timeout", timeout: 20 });
+        });
+
+        it("should complete requests within the timeout", async () => {
+            const api = createFetchio(baseUrl, { timeout: 1_000 });
+
+            const result = await api
+                .get("/slow")
+                .param("delay", "1")
+                .json<ApiResponse>();
+
+            expect(result.success).toBe(true);
+            expect(result.data?.message).toBe("Slow GET");
+        });
+
+        it("should inherit the timeout through sub and path", async () => {
+            const api = createFetchio(baseUrl, { timeout: 20 });
+
+            const sub = await api.sub("/slow").get().json();
+            const path = await api.path("/slow").get().json();
+
+            expect(sub.error?.kind).toBe("timeout");
+            expect(path.error?.kind).toBe("timeout");
+        });
+
+        it("should resolve to an abort failure", async () => {
+            const api = createFetchio(baseUrl);
+            const controller = new AbortController();
+
+            const pending = api.get("/slow").signal(controller.signal).json();
+            controller.abort("cancelled");
+            const result = await pending;
+
+            expect(result.success).toBe(false);
+            expect(result.error).toEqual({ kind: "abort", reason: "cancelled" });
+        });
+
+        it("should keep the signal when an interceptor rebuilds the options", async () => {
+            const api = createFetchio(baseUrl, {
+                requestInterceptor: async (url, options) => ({
+                    url,
+                    options: { method: options.method },
+                }),
+            });
+            const controller = new AbortController();
+
+            const pending = api.get("/slow").signal(controller.signal).json();
+            setTimeout(() => controller.abort(), 10);
+            const result = await pending;
+
+            expect(result.error?.kind).toBe("abort");
+        });
+
+        it("should abort the wait between retries", async () => {
+            const api = createFetchio(baseUrl, {
+                retry: { attempts: 3, delay: 5_000, jitter: false },
+            });
+
+            const result = await api
+                .get("/flaky")
+                .params({ id: "timeout-retry", fails: "3" })
+                .timeout(50)
+                .string();
+
+            expect(result.error?.kind).toBe("timeout");
+            expect(result.attempts).toBe(1);
+        });
+    });
+});
\ No newline at end of file